@@ -2,21 +2,21 @@
  * For Pro Panel
  */
 export const ZONES = {
-  1:  ['sensor', 'beeper', 'siren', 'switch'],
-  2:  ['sensor', 'beeper', 'siren', 'switch'],
-  3:  ['sensor', 'beeper', 'siren', 'switch'],
-  4:  ['sensor', 'beeper', 'siren', 'switch'],
-  5:  ['sensor', 'beeper', 'siren', 'switch'],
-  6:  ['sensor', 'beeper', 'siren', 'switch'],
-  7:  ['sensor', 'beeper', 'siren', 'switch'],
-  8:  ['sensor', 'beeper', 'siren', 'switch'],
+  1:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  2:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  3:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  4:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  5:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  6:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  7:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  8:  ['sensor', 'beeper', 'siren', 'switch', 'garagedoor', 'valve'],
   9:  ['sensor'],
   10: ['sensor'],
   11: ['sensor'],
   12: ['sensor'],
-  alarm1:       ['beeper', 'siren', 'switch'],
-  out1:         ['beeper', 'siren', 'switch'],
-  alarm2_out2:  ['beeper', 'siren', 'switch'],
+  alarm1:       ['beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  out1:         ['beeper', 'siren', 'switch', 'garagedoor', 'valve'],
+  alarm2_out2:  ['beeper', 'siren', 'switch', 'garagedoor', 'valve'],
 };
 
 /**
@@ -42,6 +42,10 @@ export const ZONE_TYPES = {
     'glass',
     'water',
     'smoke',
+    'co',
+    'button',
+    'doorbell',
+    'tamper',
   ],
   dht_sensors: [
     'humidtemp',
@@ -54,22 +58,30 @@ export const ZONE_TYPES = {
     'siren',
     'strobe',
     'switch',
+    'garagedoor',
+    'valve',
   ],
 };
 
 export const TYPES_TO_ACCESSORIES = {
-  securitysystem: ['SecuritySystem',    'Security System'],               // https://developers.homebridge.io/#/service/SecuritySystem
-  contact:        ['ContactSensor',     'Contact Sensor'],                // https://developers.homebridge.io/#/service/ContactSensor
-  motion:         ['MotionSensor',      'Motion Sensor'],                 // https://developers.homebridge.io/#/service/MotionSensor
-  glass:          ['ContactSensor',     'Glass Break Sensor'],            // https://developers.homebridge.io/#/service/ContactSensor
-  water:          ['LeakSensor',        'Water Sensor'],                  // https://developers.homebridge.io/#/service/LeakSensor
-  smoke:          ['SmokeSensor',       'Smoke Sensor'],                  // https://developers.homebridge.io/#/service/SmokeSensor
-  temperature:    ['TemperatureSensor', 'Temperature Sensor'],            // https://developers.homebridge.io/#/service/TemperatureSensor
-  humidtemp:      ['HumiditySensor',    'Humidity & Temperature Sensor'], // https://developers.homebridge.io/#/service/HumiditySensor
-  beeper:         ['Switch',            'Beeper'],                        // https://developers.homebridge.io/#/service/Switch
-  siren:          ['Switch',            'Siren'],                         // https://developers.homebridge.io/#/service/Switch
-  strobe:         ['Switch',            'Strobe Light'],                  // https://developers.homebridge.io/#/service/Switch
-  switch:         ['Switch',            'Generic Switch'],                // https://developers.homebridge.io/#/service/Switch
+  securitysystem: ['SecuritySystem',              'Security System'],               // https://developers.homebridge.io/#/service/SecuritySystem
+  contact:        ['ContactSensor',               'Contact Sensor'],                // https://developers.homebridge.io/#/service/ContactSensor
+  motion:         ['MotionSensor',                'Motion Sensor'],                 // https://developers.homebridge.io/#/service/MotionSensor
+  glass:          ['ContactSensor',               'Glass Break Sensor'],            // https://developers.homebridge.io/#/service/ContactSensor
+  water:          ['LeakSensor',                  'Water Sensor'],                  // https://developers.homebridge.io/#/service/LeakSensor
+  smoke:          ['SmokeSensor',                 'Smoke Sensor'],                  // https://developers.homebridge.io/#/service/SmokeSensor
+  co:             ['CarbonMonoxideSensor',        'Carbon Monoxide Sensor'],        // https://developers.homebridge.io/#/service/CarbonMonoxideSensor
+  button:         ['StatelessProgrammableSwitch', 'Programmable Button'],           // https://developers.homebridge.io/#/service/StatelessProgrammableSwitch
+  doorbell:       ['Doorbell',                    'Doorbell'],                      // https://developers.homebridge.io/#/service/Doorbell
+  tamper:         ['ContactSensor',               'Tamper Sensor'],                 // https://developers.homebridge.io/#/service/ContactSensor
+  temperature:    ['TemperatureSensor',           'Temperature Sensor'],            // https://developers.homebridge.io/#/service/TemperatureSensor
+  humidtemp:      ['HumiditySensor',              'Humidity & Temperature Sensor'], // https://developers.homebridge.io/#/service/HumiditySensor
+  beeper:         ['Switch',                      'Beeper'],                        // https://developers.homebridge.io/#/service/Switch
+  siren:          ['Switch',                      'Siren'],                         // https://developers.homebridge.io/#/service/Switch
+  strobe:         ['Switch',                      'Strobe Light'],                  // https://developers.homebridge.io/#/service/Switch
+  switch:         ['Switch',                      'Generic Switch'],                // https://developers.homebridge.io/#/service/Switch
+  garagedoor:     ['GarageDoorOpener',            'Garage Door Opener'],            // https://developers.homebridge.io/#/service/GarageDoorOpener
+  valve:          ['Valve',                       'Valve'],                         // https://developers.homebridge.io/#/service/Valve
 };
 
 export const ALARM_NAMES_TO_NUMBERS = {
@@ -80,10 +92,43 @@ export const ALARM_NAMES_TO_NUMBERS = {
   ALARM_TRIGGERED: 4,
 };
 
-export const ALARM_VALUES_TO_NAMES = (value: number) => {
-  Object.entries(ALARM_NAMES_TO_NUMBERS).find(([name, number]) => {
-    if (value === number) {
-      return name;
-    }
-  });
-};
\ No newline at end of file
+export const ALARM_VALUES_TO_NAMES = (value: number) =>
+  Object.entries(ALARM_NAMES_TO_NUMBERS).find(([, number]) => value === number)?.[0];
+
+/**
+ * For 24-Hour Zones and Alarm Classes
+ */
+export const TYPES_TO_ALARM_CLASSES = {
+  smoke: 'fire',
+  co:    'co',
+  water: 'leak',
+};
+
+// in order of priority, a triggered alarm is only replaced by an alarm of a higher priority
+export const ALARM_CLASSES = ['fire', 'co', 'burglary', 'leak'] as const;
+
+// burglary alarms sound sirens with their own switch settings unless a pattern is configured
+export const ALARM_CLASSES_TO_SIREN_PATTERNS = {
+  fire: 'temporal3',
+  co:   'temporal4',
+  leak: 'pulse',
+};
+
+// the cycle of a pattern is how often its pulses are repeated until the alarm ends
+export const SIREN_PATTERNS = {
+  continuous: {},
+  pulse:      { pulseDuration: 1000, pulsePause: 1000, pulseRepeat: -1 },
+  temporal3:  { pulseDuration: 500,  pulsePause: 500,  pulseRepeat: 3, cycle: 4000 }, // NFPA 72 fire evacuation
+  temporal4:  { pulseDuration: 100,  pulsePause: 100,  pulseRepeat: 4, cycle: 5800 }, // NFPA 720 carbon monoxide
+};
+
+/**
+ * For Prometheus Metrics
+ */
+export const METRICS_COUNTERS = {
+  konnected_panel_callbacks_total:        'Zone state callbacks received from panels.',
+  konnected_auth_failures_total:          'Panel callbacks rejected because of a missing or invalid token.',
+  konnected_provisioning_attempts_total:  'Attempts to provision a panel with settings and zones.',
+  konnected_actuator_failures_total:      'Actuator requests to a panel that failed.',
+  konnected_alarm_triggers_total:         'Times the security system alarm was triggered.',
+};
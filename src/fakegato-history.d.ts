@@ -0,0 +1,44 @@
+/**
+ * Type declarations for the parts of fakegato-history (Eve app history) used by this plugin
+ */
+declare module 'fakegato-history' {
+  import { API, Logger, PlatformAccessory, Service } from 'homebridge';
+
+  export interface FakeGatoHistoryEntryInterface {
+    time: number;
+    status?: number;
+    temp?: number;
+    humidity?: number;
+    pressure?: number;
+  }
+
+  export interface FakeGatoHistoryOptionsInterface {
+    storage?: 'fs' | 'googleDrive';
+    path?: string;
+    filename?: string;
+    size?: number;
+    minutes?: number;
+    disableTimer?: boolean;
+    log?: Logger;
+  }
+
+  export class FakeGatoHistoryService extends Service {
+    static UUID: string;
+
+    constructor(
+      accessoryType: 'door' | 'motion' | 'weather' | 'room' | 'switch' | 'thermo' | 'energy' | 'aqua' | 'custom',
+      accessory: PlatformAccessory,
+      optionalParams?: FakeGatoHistoryOptionsInterface
+    );
+
+    addEntry(entry: FakeGatoHistoryEntryInterface): void;
+    getInitialTime(): number | undefined;
+    setExtraPersistedData(extra: unknown): void;
+    getExtraPersistedData(): unknown;
+    isHistoryLoaded(): boolean;
+    save(): void;
+  }
+
+  const fakegato: (api: API) => typeof FakeGatoHistoryService;
+  export default fakegato;
+}
@@ -17,16 +17,69 @@ export interface PanelObjectInterface {
   };
   uptime: number;
   swVersion: string;
-  actuators: [];
-  dht_sensors: [];
-  ds18b20_sensors: [];
-  sensors: [];
+  actuators: PanelZoneInterface[];
+  dht_sensors: PanelZoneInterface[];
+  ds18b20_sensors: PanelZoneInterface[];
+  sensors: PanelZoneInterface[];
   heap: number;
   chipId?: string;
   model?: string;
   connection_type?: string;
 }
 
+/**
+ * Common object structure for a panel in the plugin config.
+ */
+export interface ConfigPanelInterface {
+  name?: string;
+  uuid?: string;
+  ipAddress?: string;
+  port?: number;
+  blink?: boolean;
+  zones?: Record<string, unknown>[];
+}
+
+/**
+ * Common object structure for a zone in the panel provisioning payload and status response.
+ * Pro panels identify zones by zone, V1-V2 panels by pin.
+ */
+export interface PanelZoneInterface {
+  pin?: number | string;
+  zone?: number | string;
+  trigger?: number;
+  poll_interval?: number;
+  state?: number;
+}
+
+/**
+ * Common object structure for the zones in the panel provisioning payload.
+ */
+export interface PanelZonesPayloadInterface {
+  sensors: PanelZoneInterface[];
+  dht_sensors: PanelZoneInterface[];
+  ds18b20_sensors: PanelZoneInterface[];
+  actuators: PanelZoneInterface[];
+}
+
+/**
+ * Common object structure for tracking whether a panel is still responding.
+ */
+export interface PanelHeartbeatInterface {
+  lastSeen: number;
+  missed: number;
+  online: boolean;
+  pending?: boolean;
+}
+
+/**
+ * Common object structure for tracking the provisioning of a panel.
+ */
+export interface PanelProvisioningInterface {
+  attempts: number;
+  status: 'pending' | 'verified' | 'failed';
+  retryTimerHandle?: NodeJS.Timeout;
+}
+
 /**
  * Common object structure for the Konnected platform Homebridge config.
  */
@@ -35,6 +88,30 @@ export interface ConfigPlatformInterface extends PlatformConfig {
     listenerPort?: number;
     listenerIP?: string;
     discoveryTimeout?: string;
+    discoveryMode?: 'ssdp' | 'manual';
+    ssdpFallback?: boolean;
+    rotateTokens?: boolean;
+    dryRun?: boolean;
+    strictValidation?: boolean;
+    controlApiSettings?: {
+      enabled?: boolean;
+      apiKey?: string;
+    };
+    metricsSettings?: {
+      enabled?: boolean;
+    };
+    configBackupSettings?: {
+      maxCount?: number;
+      maxAge?: number;
+    };
+    provisioningSettings?: {
+      maxAttempts?: number;
+      verifyDelay?: number;
+    };
+    heartbeatSettings?: {
+      interval?: number;
+      missedLimit?: number;
+    };
     entryDelay?: number;
   };
   panels?: Panel;
@@ -51,6 +128,126 @@ interface Zone {
   zoneNumber?: number;
   zoneType?: string;
   zoneLocation?: string;
+  garageDoorSettings?: GarageDoorSettingsInterface;
+  buttonSettings?: ButtonSettingsInterface;
+  valveSettings?: ValveSettingsInterface;
+  motionSettings?: MotionSettingsInterface;
+  environmentalSensorSettings?: EnvironmentalSensorSettingsInterface;
+  tamperSettings?: TamperSettingsInterface;
+}
+
+/**
+ * Common object structure for the settings of a temperature or humidity sensor zone.
+ * Temperatures are in the temperature unit of the sensor.
+ */
+export interface EnvironmentalSensorSettingsInterface {
+  pollInterval?: number;
+  temperatureUnit?: 'celsius' | 'fahrenheit';
+  temperatureOffset?: number;
+  temperatureScale?: number;
+  humidityOffset?: number;
+  humidityScale?: number;
+  highThreshold?: number;
+  lowThreshold?: number;
+  triggerableModes?: [];
+  multipleProbes?: boolean;
+  probes?: ProbeSettingsInterface[];
+}
+
+/**
+ * Common object structure for the settings of a DS18B20 probe that shares a temperature sensor zone with other probes.
+ * Calibration and thresholds override those of the zone.
+ */
+export interface ProbeSettingsInterface {
+  address: string;
+  name?: string;
+  temperatureOffset?: number;
+  temperatureScale?: number;
+  highThreshold?: number;
+  lowThreshold?: number;
+}
+
+/**
+ * Common object structure for the settings of a garage door opener zone.
+ */
+export interface GarageDoorSettingsInterface {
+  contactZone?: string;
+  travelTime?: number;
+  pulseDuration?: number;
+}
+
+/**
+ * Common object structure for the settings of a tamper zone.
+ */
+export interface TamperSettingsInterface {
+  linkedZones?: string[];
+  triggerAlarm?: boolean;
+}
+
+/**
+ * Common object structure for the settings of a button or doorbell zone.
+ */
+export interface ButtonSettingsInterface {
+  invert?: boolean;
+  doublePressWindow?: number;
+  longPressTime?: number;
+}
+
+/**
+ * Common object structure for the settings of a valve zone.
+ */
+export interface ValveSettingsInterface {
+  valveType?: 'generic' | 'irrigation' | 'shower' | 'faucet';
+  defaultDuration?: number;
+}
+
+/**
+ * Common object structure for the settings of a motion sensor zone.
+ */
+export interface MotionSettingsInterface {
+  holdTime?: number;
+  retriggerWindow?: number;
+  occupancySensor?: boolean;
+  occupancyTimeout?: number;
+}
+
+/**
+ * Common object structure for tracking the motion of a motion sensor zone with motion settings.
+ */
+export interface MotionTrackerInterface {
+  detectedAt: number;
+  clearTimerHandle?: NodeJS.Timeout;
+  occupancyTimerHandle?: NodeJS.Timeout;
+}
+
+/**
+ * Common object structure for tracking the state changes of a binary sensor zone with chatter detection.
+ */
+export interface SensorChatterInterface {
+  changes: number[];
+  chattering: boolean;
+  lastState?: boolean | number;
+  settleTimerHandle?: NodeJS.Timeout;
+}
+
+/**
+ * Common object structure for tracking the presses of a button zone.
+ */
+export interface ButtonPressInterface {
+  count: number;
+  longPressed: boolean;
+  pressTimerHandle?: NodeJS.Timeout;
+  longPressTimerHandle?: NodeJS.Timeout;
+}
+
+/**
+ * Common object structure for the history counters of a zone that are persisted with its Eve history.
+ */
+export interface ZoneHistoryInterface {
+  timesOpened?: number;
+  timesClosed?: number;
+  lastActivation?: number;
+  resetTotal?: number;
 }
 
 /**
@@ -68,10 +265,83 @@ export interface RuntimeCacheInterface {
   invert?: boolean;
   pollInterval?: number;
   audibleBeep?: boolean;
+  delayType?: 'delayed' | 'instant';
+  twentyFourHour?: boolean;
+  bypassSwitch?: boolean;
+  permanentBypass?: boolean;
+  debounceTime?: number;
+  chatterLimit?: number;
+  chatterWindow?: number;
   trigger?: string;
   triggerableModes?: [];
+  garageDoorSettings?: GarageDoorSettingsInterface;
+  buttonSettings?: ButtonSettingsInterface;
+  valveSettings?: ValveSettingsInterface;
+  motionSettings?: MotionSettingsInterface;
+  environmentalSensorSettings?: EnvironmentalSensorSettingsInterface;
+  tamperSettings?: TamperSettingsInterface;
+  probeAddress?: string;
   // the following are actively updated
   state?: boolean | number;
+  targetState?: number;
+  obstructed?: boolean;
+  duration?: number;
+  endTime?: number;
+  occupied?: boolean;
+  highAlert?: boolean;
+  lowAlert?: boolean;
+  tampered?: boolean;
+  bypassed?: boolean;
   humi?: number;
   temp?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Common object structure for the events published on the live event stream.
+ */
+export interface PlatformEventInterface {
+  type:
+    | 'zoneState'
+    | 'environment'
+    | 'arming'
+    | 'armingReadiness'
+    | 'exitDelay'
+    | 'armed'
+    | 'entryDelay'
+    | 'triggered'
+    | 'sirenTimeout'
+    | 'disarmed'
+    | 'panelOffline'
+    | 'panelOnline'
+    | 'provisioned'
+    | 'provisioningFailed'
+    | 'garageDoor'
+    | 'buttonPress'
+    | 'valve'
+    | 'occupancy'
+    | 'chatter'
+    | 'temperatureAlert'
+    | 'historyReset'
+    | 'tamper'
+    | 'bypass';
+  timestamp: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Common object structure for the issues found when validating the plugin config.
+ */
+export interface ConfigValidationIssueInterface {
+  level: 'error' | 'warning';
+  panel: string;
+  zone?: string;
+  message: string;
+}
+
+/**
+ * Common object structure for the report of validating the plugin config.
+ */
+export interface ConfigValidationReportInterface {
+  errors: ConfigValidationIssueInterface[];
+  warnings: ConfigValidationIssueInterface[];
+}
@@ -1,17 +1,51 @@
 import { API, DynamicPlatformPlugin, Logger, PlatformAccessory, PlatformConfig, Service, Characteristic } from 'homebridge';
 
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
-import { ZONES, ZONES_TO_PINS, ZONE_TYPES, TYPES_TO_ACCESSORIES } from './constants';
-import { PanelObjectInterface, RuntimeCacheInterface } from './interfaces';
+import {
+  ZONES,
+  ZONES_TO_PINS,
+  ZONE_TYPES,
+  TYPES_TO_ACCESSORIES,
+  ALARM_NAMES_TO_NUMBERS,
+  ALARM_VALUES_TO_NAMES,
+  TYPES_TO_ALARM_CLASSES,
+  ALARM_CLASSES,
+  ALARM_CLASSES_TO_SIREN_PATTERNS,
+  SIREN_PATTERNS,
+  METRICS_COUNTERS,
+} from './constants';
+import {
+  PanelObjectInterface,
+  ConfigPanelInterface,
+  PanelHeartbeatInterface,
+  ButtonPressInterface,
+  MotionTrackerInterface,
+  EnvironmentalSensorSettingsInterface,
+  SensorChatterInterface,
+  ConfigValidationIssueInterface,
+  ConfigValidationReportInterface,
+  PanelProvisioningInterface,
+  PanelZoneInterface,
+  PanelZonesPayloadInterface,
+  RuntimeCacheInterface,
+  PlatformEventInterface,
+  ZoneHistoryInterface,
+} from './interfaces';
 // import { ReplaceCircular } from './utilities';
+import { EveCharacteristics, FormatMetricLabels, WriteFileAtomic } from './utilities';
+import { ValidatePanelsConfig } from './validation';
 import { KonnectedPlatformAccessory } from './platformAccessory';
 
 import client from 'node-ssdp';      // for devices discovery
 import express from 'express';       // for the listening API
 import fetch from 'node-fetch';      // for making calls to the device
 import http from 'http';             // for creating a listening server
+import crypto from 'crypto';         // for comparing API keys
+import { EventEmitter } from 'events'; // for publishing zone and security system events
 import fs from 'fs';                 // for working with the filesystem
+import path from 'path';             // for building storage file paths
 import ip from 'ip';                 // for getting active IP on the system
+import fakegato from 'fakegato-history'; // for Eve app history of zones
 import { v4 as uuidv4 } from 'uuid'; // for handling UUIDs and creating auth tokens
 import { URL } from 'url';
 
@@ -52,6 +86,16 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
   // NOTE: we do not store the security system accessory here, its state is maintained in the Homebridge accessories explicitly.
   public accessoriesRuntimeCache: RuntimeCacheInterface[] = [];
 
+  // zone and security system events are published here for the live event stream
+  public readonly events: EventEmitter = new EventEmitter();
+
+  // Eve app history of contact, motion and environmental zones, persisted in Homebridge storage
+  public readonly historyEnabled: boolean = this.config.advanced?.historySettings?.enabled === true;
+  public readonly FakeGatoHistoryService = fakegato(this.api);
+  // history services are created once per accessory UUID, as each one keeps its own storage writer and timers
+  public historyServices: Record<string, InstanceType<ReturnType<typeof fakegato>>> = {};
+  public readonly EveCharacteristic = EveCharacteristics(this.api);
+
   // security system UUID (we only allow one security system per homebridge instance)
   private securitySystemUUID: string = this.api.hap.uuid.generate(this.config.platform);
 
@@ -64,6 +108,19 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
 
   private entryTriggerDelayTimerHandle;
 
+  // class of the alarm while the security system is triggered, and the timer that repeats its siren pattern
+  private alarmClass?: typeof ALARM_CLASSES[number];
+  private sirenPatternTimerHandle?: NodeJS.Timeout;
+
+  // define siren timeout and re-arming defaults
+  private sirenTimeout: number = this.config.advanced?.alarmSettings?.sirenTimeout
+    ? Math.round(this.config.advanced.alarmSettings.sirenTimeout * 60) * 1000
+    : 0; // zero = sirens sound until disarmed
+
+  private sirenTimeoutTimerHandle?: NodeJS.Timeout;
+  private rearmState?: number; // the armed mode before the alarm was triggered
+  private swingerTrips: Record<string, number> = {}; // alarm trips of each zone until the security system is disarmed
+
   // define exit delay defaults
   private exitTriggerDelay: number =
     this.config.advanced?.exitDelaySettings?.delay !== null &&
@@ -83,21 +140,102 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
     : 5000; // 5 seconds
 
   private listenerAuth: string[] = []; // for storing random auth strings
+
+  // bearer auth tokens for panels, keyed by panel UUID and persisted in Homebridge storage
+  // so that a restart of Homebridge does not force every panel to be reprovisioned (and rebooted)
+  private panelTokens: Record<string, string> = {};
+  private panelTokensPath: string = path.join(this.api.user.storagePath(), 'konnected-tokens.json');
+
   private ssdpDiscovering = false; // for storing state of SSDP discovery process
   private ssdpDiscoverAttempts = 0;
+  private panelProbing = false; // for storing state of the manual panel probing process
+  private probedPanelUUIDs: Record<string, string> = {}; // UUIDs of panels configured without one, keyed by their configured address
+
+  // last reported status objects of discovered panels, keyed by panel UUID
+  private panels: Record<string, PanelObjectInterface> = {};
+
+  // heartbeat state of discovered panels, keyed by panel UUID
+  private panelHeartbeats: Record<string, PanelHeartbeatInterface> = {};
+  private heartbeatInterval: number =
+    this.config.advanced?.heartbeatSettings?.interval !== null &&
+    typeof this.config.advanced?.heartbeatSettings?.interval !== 'undefined'
+      ? Math.round(this.config.advanced?.heartbeatSettings?.interval) * 1000
+      : 60000; // zero = no heartbeat monitoring
+
+  private heartbeatMissedLimit: number = this.config.advanced?.heartbeatSettings?.missedLimit
+    ? this.config.advanced.heartbeatSettings.missedLimit
+    : 3;
+
+  private heartbeatTimerHandle;
+
+  // reasons for the fault of each accessory, keyed by accessory UUID
+  private accessoryFaultReasons: Record<string, ('panel' | 'chatter')[]> = {};
+
+  // provisioning state of panels, keyed by panel UUID
+  private panelProvisioning: Record<string, PanelProvisioningInterface> = {};
+  private provisioningMaxAttempts: number = this.config.advanced?.provisioningSettings?.maxAttempts
+    ? this.config.advanced.provisioningSettings.maxAttempts
+    : 5;
+
+  private provisioningVerifyDelay: number = this.config.advanced?.provisioningSettings?.verifyDelay
+    ? this.config.advanced.provisioningSettings.verifyDelay * 1000
+    : 15000; // time for the panel to reboot
+
+  // counters exported on the metrics endpoint, keyed by metric name and then by formatted label set
+  private metricsCounters: Record<string, Record<string, number>> = { konnected_alarm_triggers_total: { '': 0 } };
+
+  // debounce timers of binary sensor zones and their state change history for chatter detection, keyed by zone UUID
+  private sensorDebounceTimerHandles: Record<string, NodeJS.Timeout> = {};
+  private sensorChatter: Record<string, SensorChatterInterface> = {};
+
+  // temperature sensor zones with multiple DS18B20 probes, keyed by zone serial number
+  private probeZones: Record<string, RuntimeCacheInterface> = {};
+
+  // motion of motion sensor zones with motion settings, keyed by zone UUID
+  private motionTrackers: Record<string, MotionTrackerInterface> = {};
+
+  // presses of button zones that are still being detected, keyed by zone UUID
+  private buttonPresses: Record<string, ButtonPressInterface> = {};
+
+  // shutoff timers of valves that are running, keyed by zone UUID
+  private valveTimerHandles: Record<string, NodeJS.Timeout> = {};
+
+  // travel timers of garage doors that are opening or closing, keyed by zone UUID
+  private garageDoorTimerHandles: Record<string, NodeJS.Timeout> = {};
 
   constructor(public readonly log: Logger, public readonly config: PlatformConfig, public readonly api: API) {
     this.log.debug('Finished initializing platform');
 
+    // every open event stream subscribes a listener
+    this.events.setMaxListeners(0);
+
     // Homebridge looks for and fires this event when it has retrieved all cached accessories from disk
     // this event is also used to init other methods for this plugin
     this.api.on('didFinishLaunching', () => {
       log.debug('Executed didFinishLaunching callback. Accessories retreived from cache...');
 
+      // a dry run only validates the config and shows what would be provisioned on the panels it finds,
+      // without rotating tokens, listening for zones or registering accessories
+      if (this.config.advanced?.dryRun === true) {
+        this.log.warn('Dry run: panels, the Homebridge config and zone accessories will not be changed.');
+        const validationReport = ValidatePanelsConfig(this.config.panels);
+        this.logValidationReport(validationReport);
+        this.log.info(
+          `Dry run: config validation found ${validationReport.errors.length} error(s) and ${validationReport.warnings.length} warning(s).`
+        );
+        this.loadPanelTokens(false);
+        this.findPanels();
+        return;
+      }
+
+      // restore the panel auth tokens before any panel can call the listening server
+      this.loadPanelTokens();
+
       // run the listening server & register the security system
       this.listeningServer();
       this.registerSecuritySystem();
-      this.discoverPanels();
+      this.findPanels();
+      this.monitorPanelHeartbeats();
     });
   }
 
@@ -137,6 +275,7 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       // bearer auth token not provided
       if (typeof req.headers.authorization === 'undefined') {
         this.log.error(`Authentication failed for ${req.params.id}, token missing, with request body:`, req.body);
+        this.incrementMetric('konnected_auth_failures_total', { panel: this.getMetricPanelLabel(req.params.id) });
 
         // send the following response
         res.status(401).json({
@@ -152,6 +291,8 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
           // panel request to SET the state of the switch in Homebridge/HomeKit
           // send response with success to the panel
           res.status(200).json({ success: true });
+          this.incrementMetric('konnected_panel_callbacks_total', { panel: req.params.id });
+          this.markPanelSeen(req.params.id);
           this.updateSensorAccessoryState(req);
         } else if ('GET' === req.method) {
           // panel request to GET the state of the switch in Homebridge/HomeKit
@@ -191,7 +332,10 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
           // check the trigger state of switches based on their last runtime state in Homebridge
           this.accessoriesRuntimeCache.find((runtimeCacheAccessory) => {
             if (runtimeCacheAccessory.serialNumber === req.params.id + '-' + requestPanelZone) {
-              if (['beeper', 'siren', 'strobe', 'switch'].includes(runtimeCacheAccessory.type)) {
+              if (runtimeCacheAccessory.type === 'garagedoor') {
+                // garage door openers are only pulsed, their state is the position of the door and not of the zone
+                responsePayload.state = runtimeCacheAccessory.trigger === 'low' ? 1 : 0;
+              } else if (['beeper', 'siren', 'strobe', 'switch', 'valve'].includes(runtimeCacheAccessory.type)) {
                 if (runtimeCacheAccessory.trigger === 'low' && runtimeCacheAccessory.state === 0) {
                   responsePayload.state = 1; // set to normally high (1), waiting to be triggered low (0)
                 } else if (
@@ -228,14 +372,15 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
           success: false,
           reason: 'Authorization failed, token not valid',
         });
+        this.incrementMetric('konnected_auth_failures_total', { panel: this.getMetricPanelLabel(req.params.id) });
 
         // rediscover and reprovision panels
-        if (this.ssdpDiscovering === false) {
+        if (this.ssdpDiscovering === false && this.panelProbing === false) {
           this.log.warn(`Received zone payload: ${req.body}`);
           this.log.warn(`Authentication failed for ${req.params.id}, token not valid`);
           this.log.warn('Authentication token:', req.headers.authorization.split('Bearer ').pop());
           this.log.warn('Rediscovering and reprovisioning panels...');
-          this.discoverPanels();
+          this.findPanels();
         }
       }
     };
@@ -246,6 +391,380 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       .put(respond) // Alarm Panel V1-V2
       .post(respond) // Alarm Panel Pro
       .get(respond); // For Actuator Requests
+
+    // Prometheus metrics for panels, zones and alarm activity
+    if (this.config.advanced?.metricsSettings?.enabled === true) {
+      app.get('/metrics', (req, res) => {
+        res.set('Content-Type', 'text/plain; version=0.0.4');
+        res.status(200).send(this.getMetrics());
+      });
+      this.log.info('Prometheus metrics enabled at /metrics');
+    }
+
+    // local control API for the security system and zones (only when an API key is configured)
+    if (this.config.advanced?.controlApiSettings?.enabled === true) {
+      if (this.config.advanced?.controlApiSettings?.apiKey) {
+        this.controlApi(app);
+        this.log.info('Control API enabled at /api/control');
+      } else {
+        this.log.warn('Control API is enabled but no API key is configured, the control API will not be available.');
+      }
+    }
+  }
+
+  /**
+   * Register the routes of the local REST control API on the listening server.
+   * Requests must provide the configured API key as a bearer token (or in an 'X-API-Key' header).
+   *
+   * Routes:
+   * - GET  /api/control/securitysystem        current and target state of the security system
+   * - PUT  /api/control/securitysystem        set the security system state, body: { "state": 0-3 | "AWAY_ARM" | ... }
+   *                                            (409 when arming is refused because of open zones)
+   * - GET  /api/control/zones                 all zones with their current state
+   * - GET  /api/control/zones/:id             a single zone by its serial number or UUID
+   * - PUT  /api/control/zones/:id             actuate a switch zone, body: { "state": true | false }
+   * - GET  /api/control/events                live stream of zone and security system events (Server-Sent Events)
+   *
+   * @param app express.Express  The express app of the listening server.
+   */
+  controlApi(app: express.Express) {
+    const apiKey = Buffer.from(String(this.config.advanced.controlApiSettings.apiKey));
+
+    // API key authorization for all control routes
+    const authorize = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      const providedKey = Buffer.from(
+        String(req.headers['x-api-key'] || (req.headers.authorization || '').split('Bearer ').pop())
+      );
+      if (providedKey.length !== apiKey.length || !crypto.timingSafeEqual(providedKey, apiKey)) {
+        this.log.warn(`Control API authentication failed for ${req.method} ${req.originalUrl} from ${req.ip}`);
+        res.status(401).json({
+          success: false,
+          reason: 'Authorization failed, API key missing or not valid',
+        });
+        return;
+      }
+      next();
+    };
+
+    // find a zone in the runtime cache by serial number or UUID
+    const findZone = (id: string) =>
+      this.accessoriesRuntimeCache.find(
+        (runtimeCacheAccessory) => runtimeCacheAccessory.serialNumber === id || runtimeCacheAccessory.UUID === id
+      );
+
+    app.use('/api/control', authorize);
+
+    app
+      .route('/api/control/securitysystem')
+      .get((req, res) => {
+        res.status(200).json({
+          success: true,
+          ...this.getSecuritySystemStatus(),
+        });
+      })
+      .put((req, res) => {
+        // accept either the state number or the state name (e.g., 'AWAY_ARM')
+        const requestedState =
+          typeof req.body?.state === 'string' && req.body.state.toUpperCase() in ALARM_NAMES_TO_NUMBERS
+            ? ALARM_NAMES_TO_NUMBERS[req.body.state.toUpperCase()]
+            : Number(req.body?.state);
+
+        if (![0, 1, 2, 3].includes(requestedState)) {
+          res.status(400).json({
+            success: false,
+            reason: 'Invalid state, use 0 (STAY_ARM), 1 (AWAY_ARM), 2 (NIGHT_ARM) or 3 (DISARMED)',
+          });
+          return;
+        }
+
+        this.log.info(`Control API setting security system state to ${requestedState}`);
+
+        // arming with open zones may be refused
+        if (!this.controlSecuritySystem(requestedState)) {
+          res.status(409).json({
+            success: false,
+            reason: 'Security system refused to arm with open zones',
+            ...this.getSecuritySystemStatus(),
+          });
+          return;
+        }
+
+        // reflect the request in HomeKit as if it came from the Home app
+        this.konnectedPlatformAccessories[this.securitySystemUUID].service.updateCharacteristic(
+          this.Characteristic.SecuritySystemTargetState,
+          requestedState
+        );
+
+        res.status(200).json({
+          success: true,
+          ...this.getSecuritySystemStatus(),
+        });
+      });
+
+    app.get('/api/control/zones', (req, res) => {
+      res.status(200).json({
+        success: true,
+        zones: this.accessoriesRuntimeCache.map((runtimeCacheAccessory) => this.getZoneStatus(runtimeCacheAccessory)),
+      });
+    });
+
+    app
+      .route('/api/control/zones/:id')
+      .get((req, res) => {
+        const runtimeCacheAccessory = findZone(req.params.id);
+        if (!runtimeCacheAccessory) {
+          res.status(404).json({ success: false, reason: `Zone '${req.params.id}' not found` });
+          return;
+        }
+        res.status(200).json({ success: true, zone: this.getZoneStatus(runtimeCacheAccessory) });
+      })
+      .put((req, res) => {
+        const runtimeCacheAccessory = findZone(req.params.id);
+        if (!runtimeCacheAccessory) {
+          res.status(404).json({ success: false, reason: `Zone '${req.params.id}' not found` });
+          return;
+        }
+        if (!ZONE_TYPES.actuators.includes(runtimeCacheAccessory.type)) {
+          res.status(400).json({
+            success: false,
+            reason: `Zone '${req.params.id}' is a '${runtimeCacheAccessory.type}' and cannot be actuated`,
+          });
+          return;
+        }
+        if (typeof req.body?.state !== 'boolean' && ![0, 1].includes(req.body?.state)) {
+          res.status(400).json({ success: false, reason: 'Invalid state, use true or false' });
+          return;
+        }
+
+        const value = Boolean(req.body.state);
+
+        // garage doors are opened (true) and closed (false) instead of being switched
+        if (runtimeCacheAccessory.type === 'garagedoor') {
+          this.log.info(
+            `Control API ${value ? 'opening' : 'closing'} [${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber}) as '${runtimeCacheAccessory.type}'`
+          );
+          this.controlGarageDoor(
+            runtimeCacheAccessory.UUID,
+            value ? this.Characteristic.TargetDoorState.OPEN : this.Characteristic.TargetDoorState.CLOSED
+          );
+          res.status(200).json({ success: true, zone: this.getZoneStatus(runtimeCacheAccessory) });
+          return;
+        }
+
+        // valves run for their set duration
+        if (runtimeCacheAccessory.type === 'valve') {
+          this.log.info(
+            `Control API setting [${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber}) as '${runtimeCacheAccessory.type}' to ${value}`
+          );
+          this.controlValve(runtimeCacheAccessory.UUID, value);
+          res.status(200).json({ success: true, zone: this.getZoneStatus(runtimeCacheAccessory) });
+          return;
+        }
+
+        const existingAccessory = this.accessories.find((accessory) => accessory.UUID === runtimeCacheAccessory.UUID);
+
+        this.log.info(
+          `Control API setting [${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber}) as '${runtimeCacheAccessory.type}' to ${value}`
+        );
+
+        runtimeCacheAccessory.state = value;
+        if (existingAccessory) {
+          existingAccessory.context.device.state = value;
+        }
+        this.actuateAccessory(runtimeCacheAccessory.UUID, value, null);
+
+        res.status(200).json({ success: true, zone: this.getZoneStatus(runtimeCacheAccessory) });
+      });
+
+    app.get('/api/control/events', (req, res) => {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      res.write('retry: 5000\n\n');
+
+      // send each event as a typed server-sent event
+      const sendEvent = (event: PlatformEventInterface) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+      // comment lines keep proxies and clients from closing an idle stream
+      const keepAlive = setInterval(() => {
+        res.write(': keep-alive\n\n');
+      }, 30000);
+
+      this.events.on('event', sendEvent);
+      this.log.debug(`Control API event stream opened by ${req.ip}`);
+
+      req.on('close', () => {
+        clearInterval(keepAlive);
+        this.events.off('event', sendEvent);
+        this.log.debug(`Control API event stream closed by ${req.ip}`);
+      });
+    });
+  }
+
+  /**
+   * Publish an event to the live event stream.
+   *
+   * @param type string  The type of event (see PlatformEventInterface).
+   * @param payload object  The details of the event.
+   */
+  emitEvent(type: PlatformEventInterface['type'], payload: Record<string, unknown> = {}) {
+    const event: PlatformEventInterface = {
+      type: type,
+      timestamp: new Date().toISOString(),
+      ...payload,
+    };
+    this.events.emit('event', event);
+  }
+
+  /**
+   * Increment a counter exported on the metrics endpoint.
+   *
+   * @param name string  The name of the counter (see METRICS_COUNTERS).
+   * @param labels object  The labels that identify the counter's series.
+   */
+  incrementMetric(name: keyof typeof METRICS_COUNTERS, labels: Record<string, string> = {}) {
+    if (this.config.advanced?.metricsSettings?.enabled !== true) {
+      return;
+    }
+    const labelSet = FormatMetricLabels(labels);
+    this.metricsCounters[name] = this.metricsCounters[name] || {};
+    this.metricsCounters[name][labelSet] = (this.metricsCounters[name][labelSet] || 0) + 1;
+  }
+
+  /**
+   * Get the panel label for a metric from a panel ID sent in a request,
+   * unknown panel IDs share a single series so unauthenticated requests can't grow the metrics without bound.
+   *
+   * @param panelID string  UUID or short UUID of the panel.
+   */
+  getMetricPanelLabel(panelID: string) {
+    const knownPanel =
+      Object.keys(this.panels).some(
+        (panelUUID) => panelUUID === panelID || this.getPanelShortUUID(panelUUID, this.panels[panelUUID]) === panelID
+      ) ||
+      this.config.panels?.some((configPanel) => configPanel.uuid === panelID) ||
+      this.accessoriesRuntimeCache.some((runtimeCacheAccessory) => runtimeCacheAccessory.serialNumber.startsWith(panelID + '-'));
+    return knownPanel ? panelID : 'unknown';
+  }
+
+  /**
+   * Build the Prometheus text exposition of the panel and zone gauges and the activity counters.
+   * @reference https://prometheus.io/docs/instrumenting/exposition_formats/
+   */
+  getMetrics() {
+    const lines: string[] = [];
+
+    const addGauge = (name: string, help: string, samples: [Record<string, unknown>, unknown][]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} gauge`);
+      samples.forEach(([labels, value]) => {
+        if (typeof value === 'number' || typeof value === 'boolean') {
+          lines.push(`${name}${FormatMetricLabels(labels)} ${Number(value)}`);
+        }
+      });
+    };
+
+    // panels
+    const panelSamples = (property: string) =>
+      Object.entries(this.panels).map(([panelUUID, panelObject]): [Record<string, unknown>, unknown] => [
+        { panel: panelUUID, model: panelObject.model || 'Konnected V1-V2', ip: panelObject.ip },
+        panelObject[property],
+      ]);
+    addGauge('konnected_panel_rssi_dbm', 'WiFi signal strength of the panel.', panelSamples('rssi'));
+    addGauge('konnected_panel_uptime_seconds', 'Uptime of the panel.', panelSamples('uptime'));
+    addGauge('konnected_panel_heap_bytes', 'Free heap memory on the panel.', panelSamples('heap'));
+    addGauge(
+      'konnected_panel_online',
+      'Whether the panel is responding to heartbeats (1 = online).',
+      Object.entries(this.panelHeartbeats).map(([panelUUID, panelHeartbeat]) => [{ panel: panelUUID }, panelHeartbeat.online])
+    );
+    addGauge(
+      'konnected_panel_provisioning_failed',
+      'Whether provisioning the panel failed after all retries (1 = failed).',
+      Object.entries(this.panelProvisioning).map(([panelUUID, panelProvisioning]) => [
+        { panel: panelUUID },
+        panelProvisioning.status === 'failed',
+      ])
+    );
+    addGauge(
+      'konnected_panel_last_seen_timestamp_seconds',
+      'Time the panel was last heard from.',
+      Object.entries(this.panelHeartbeats).map(([panelUUID, panelHeartbeat]) => [
+        { panel: panelUUID },
+        Math.round(panelHeartbeat.lastSeen / 1000),
+      ])
+    );
+
+    // zones
+    const zoneSamples = (property: string) =>
+      this.accessoriesRuntimeCache.map((runtimeCacheAccessory): [Record<string, unknown>, unknown] => [
+        { zone: runtimeCacheAccessory.serialNumber, name: runtimeCacheAccessory.displayName, type: runtimeCacheAccessory.type },
+        runtimeCacheAccessory[property],
+      ]);
+    addGauge(
+      'konnected_zone_state',
+      'Current state of the zone (1 = open/detected/on).',
+      zoneSamples('state').map(([labels, state]): [Record<string, unknown>, unknown] => [
+        labels,
+        // garage doors store their CurrentDoorState (0 = open, 1 = closed), so any position but closed is open
+        labels.type === 'garagedoor' && typeof state === 'number' ? state !== this.Characteristic.CurrentDoorState.CLOSED : state,
+      ])
+    );
+    addGauge('konnected_zone_temperature_celsius', 'Current temperature reported by the zone.', zoneSamples('temp'));
+    addGauge('konnected_zone_humidity_percent', 'Current relative humidity reported by the zone.', zoneSamples('humi'));
+
+    // security system
+    const securitySystemStatus = this.getSecuritySystemStatus();
+    addGauge(
+      'konnected_security_system_state',
+      'Current state of the security system (0 = Home/Stay, 1 = Away, 2 = Night, 3 = Disarmed, 4 = Triggered).',
+      [[{}, securitySystemStatus.currentState]]
+    );
+
+    // counters
+    Object.entries(METRICS_COUNTERS).forEach(([name, help]) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+      Object.entries(this.metricsCounters[name] || {}).forEach(([labelSet, value]) => {
+        lines.push(`${name}${labelSet} ${value}`);
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Get the current and target state of the security system, and the class of a triggered alarm.
+   */
+  getSecuritySystemStatus() {
+    const securitySystemService = this.konnectedPlatformAccessories[this.securitySystemUUID]?.service;
+
+    return {
+      currentState: securitySystemService?.getCharacteristic(this.Characteristic.SecuritySystemCurrentState).value,
+      targetState: securitySystemService?.getCharacteristic(this.Characteristic.SecuritySystemTargetState).value,
+      alarmClass: this.alarmClass,
+    };
+  }
+
+  /**
+   * Get a serializable summary of a zone from the runtime cache.
+   *
+   * @param runtimeCacheAccessory RuntimeCacheInterface  The zone in the runtime cache.
+   */
+  getZoneStatus(runtimeCacheAccessory: RuntimeCacheInterface) {
+    return {
+      UUID: runtimeCacheAccessory.UUID,
+      serialNumber: runtimeCacheAccessory.serialNumber,
+      zone: runtimeCacheAccessory.serialNumber.split('-')[1],
+      displayName: runtimeCacheAccessory.displayName,
+      type: runtimeCacheAccessory.type,
+      state: runtimeCacheAccessory.state,
+      temp: runtimeCacheAccessory.temp,
+      humi: runtimeCacheAccessory.humi,
+      tampered: runtimeCacheAccessory.tampered,
+      bypassed: runtimeCacheAccessory.bypassed,
+    };
   }
 
   /**
@@ -307,6 +826,272 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
     }
   }
 
+  /**
+   * Find the alarm panels using the configured discovery mode:
+   * - 'ssdp' (default): discover panels on the network with SSDP;
+   * - 'manual': probe the panels at their configured IP address and port (for networks that block multicast),
+   *   optionally falling back to SSDP discovery when a configured panel does not respond.
+   */
+  findPanels() {
+    if (this.config.advanced?.discoveryMode === 'manual') {
+      this.probePanels();
+    } else {
+      this.discoverPanels();
+    }
+  }
+
+  /**
+   * Probe the alarm panels at the IP address and port configured for them, without SSDP.
+   * Panels configured without a UUID have it read from their Device.xml description.
+   */
+  probePanels() {
+    const configPanels = (this.config.panels || []).filter((configPanel) => configPanel.ipAddress && configPanel.port);
+    const excludedUUIDs: string[] = String(process.env.KONNECTED_EXCLUDES).split(','); // used for ignoring specific panels (mostly for development)
+
+    if (configPanels.length === 0) {
+      this.log.warn('Manual discovery is enabled but no panels are configured with an IP address and port.');
+    }
+
+    // set discovery state
+    this.panelProbing = true;
+
+    const probePanel = async (configPanel: ConfigPanelInterface): Promise<string | undefined> => {
+      const panelAddress = `http://${configPanel.ipAddress}:${configPanel.port}`;
+      try {
+        let panelUUID = configPanel.uuid;
+        if (!panelUUID) {
+          // read the UUID from the panel's UPnP device description
+          const deviceDescription = await (await fetch(`${panelAddress}/Device.xml`, { timeout: 5000 })).text();
+          panelUUID = (deviceDescription.match(/<UDN>uuid:(.*)<\/UDN>/i) || [])[1] || '';
+        }
+        if (!panelUUID) {
+          this.log.warn(`Could not determine the UUID of the panel at ${panelAddress}`);
+          return;
+        }
+        // the config.json is updated with the UUID during setup, until then the panel is matched to its config by address
+        if (!configPanel.uuid) {
+          this.probedPanelUUIDs[`${configPanel.ipAddress}:${configPanel.port}`] = panelUUID;
+        }
+        if (excludedUUIDs.includes(panelUUID)) {
+          return panelUUID;
+        }
+
+        const panelResponseObject = await (await fetch(`${panelAddress}/status`, { timeout: 5000 })).json();
+        this.setupPanel(panelUUID, panelResponseObject);
+        return panelUUID;
+      } catch (error: unknown) {
+        this.log.warn(
+          `Could not reach the panel at ${panelAddress}:`,
+          error instanceof Error ? error['message'] : error
+        );
+      }
+    };
+
+    Promise.all(configPanels.map((configPanel) => probePanel(configPanel))).then((probedUUIDs) => {
+      this.panelProbing = false;
+
+      const foundUUIDs = probedUUIDs.filter((panelUUID) => typeof panelUUID === 'string') as string[];
+      this.log.debug('Probing complete. Found panels:\n' + JSON.stringify(foundUUIDs, null, 2));
+
+      // fall back to SSDP when there are no configured panels to probe, or for any configured panels that did not respond
+      if (configPanels.length === 0) {
+        this.log.info('No panels to probe, falling back to SSDP discovery...');
+        this.discoverPanels();
+      } else if (this.config.advanced?.ssdpFallback === true && foundUUIDs.length < configPanels.length) {
+        this.log.info('Not all configured panels responded, falling back to SSDP discovery...');
+        this.discoverPanels(foundUUIDs);
+      }
+    });
+  }
+
+  /**
+   * Check if a panel of the plugin config is the panel with a UUID,
+   * panels configured without a UUID are matched by the address they were probed at.
+   *
+   * @param configPanel ConfigPanelInterface  The panel in the plugin config.
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   */
+  isConfigPanel(configPanel: ConfigPanelInterface, panelUUID: string) {
+    return configPanel.uuid
+      ? configPanel.uuid === panelUUID
+      : this.probedPanelUUIDs[`${configPanel.ipAddress}:${configPanel.port}`] === panelUUID;
+  }
+
+  /**
+   * Set up a found panel: add it to the Homebridge config, provision it if needed, and configure its zones.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   * @param panelResponseObject PanelObjectInterface  The status response object of the panel.
+   */
+  setupPanel(panelUUID: string, panelResponseObject: PanelObjectInterface) {
+    // keep the latest panel status for reporting and heartbeat monitoring
+    this.panels[panelUUID] = panelResponseObject;
+    this.markPanelSeen(panelUUID);
+
+    // create listener object to pass back to panel when provisioning it
+    const listenerObject = {
+      ip: this.listenerIP,
+      port: this.listenerPort,
+    };
+
+    // report problems with the panel's zones now that we know its model
+    const configPanel = this.config.panels?.find((configPanel) => this.isConfigPanel(configPanel, panelUUID));
+    const validationReport = ValidatePanelsConfig(configPanel ? [configPanel] : [], {
+      [panelUUID]: 'model' in panelResponseObject ? 'Pro' : 'V1-V2',
+    });
+    this.logValidationReport(validationReport);
+
+    if (this.config.advanced?.dryRun === true) {
+      // show what would be provisioned without touching the panel, the config or the accessories
+      // the listening server isn't started in a dry run, so an automatically chosen port isn't known
+      const dryRunListenerObject = {
+        ip: this.listenerIP,
+        port: this.listenerPort || undefined,
+      };
+      const panelPayloadAccessories = this.configureZones(panelUUID, panelResponseObject, false);
+      const panelChanges = this.diffPanelSettings(panelUUID, panelResponseObject, dryRunListenerObject, panelPayloadAccessories);
+      const panelConfigurationPayload = this.buildPanelConfigurationPayload(
+        panelUUID,
+        { ip: this.listenerIP, port: this.listenerPort || '(automatic port)' },
+        panelPayloadAccessories,
+        this.panelTokens[panelUUID] || '(new token)'
+      );
+      this.log.info(
+        `Dry run: panel ${panelUUID} ` +
+          (panelChanges.length > 0
+            ? 'would be provisioned with the following changes:\n - ' + panelChanges.join('\n - ')
+            : 'is up to date and would not be provisioned') +
+          (dryRunListenerObject.port
+            ? ''
+            : '\nThe listening port is chosen automatically when Homebridge starts, so only the IP address of the endpoint was compared (set a listening port in the advanced settings to compare it too).') +
+          '\nPayload:\n' +
+          JSON.stringify(panelConfigurationPayload, null, 2)
+      );
+      return;
+    }
+
+    // use the above information to construct panel in Homebridge config
+    this.updateHomebridgeConfig(panelUUID, panelResponseObject);
+
+    if (panelResponseObject.settings?.endpoint_type === 'aws_iot') {
+      this.log.error(
+        `ERROR: Cannot provision panel ${panelUUID} with Homebridge. Panel has previously been provisioned with another platform (Konnected Cloud, SmartThings, Home Assistant, Hubitat,. etc). Please factory reset your Konnected Alarm panel and disable any other platform connectors before associating the panel with Homebridge.`
+      );
+      return;
+    }
+
+    // build the desired zones payload (this also registers the zones as accessories)
+    const panelPayloadAccessories = this.configureZones(panelUUID, panelResponseObject);
+
+    // only provision (which reboots the panel) when its settings differ from what it reports
+    const panelChanges = this.diffPanelSettings(panelUUID, panelResponseObject, listenerObject, panelPayloadAccessories);
+
+    if (panelChanges.length > 0 && validationReport.errors.length > 0 && this.config.advanced?.strictValidation === true) {
+      this.log.error(
+        `Not provisioning panel ${panelUUID} because its zone configuration has ${validationReport.errors.length} error(s), please fix them in your Homebridge configuration.`
+      );
+    } else if (panelChanges.length > 0) {
+      this.log.info(`Provisioning panel ${panelUUID} with the following changes:\n - ` + panelChanges.join('\n - '));
+      this.provisionPanel(panelUUID, panelResponseObject, listenerObject, panelPayloadAccessories);
+    } else {
+      this.log.debug(`Panel ${panelUUID} settings and zones are up to date, no provisioning needed`);
+    }
+  }
+
+  /**
+   * Log the errors and warnings of a config validation report.
+   *
+   * @param validationReport ConfigValidationReportInterface  The report returned by ValidatePanelsConfig.
+   */
+  logValidationReport(validationReport: ConfigValidationReportInterface) {
+    const issueLabel = (issue: ConfigValidationIssueInterface) =>
+      `Invalid Zone: [${issue.panel}]` + (issue.zone ? ` zone '${issue.zone}'` : '') + `: ${issue.message}`;
+
+    validationReport.errors.forEach((issue) => this.log.error(issueLabel(issue)));
+    validationReport.warnings.forEach((issue) => this.log.warn(issueLabel(issue)));
+  }
+
+  /**
+   * Compare the settings and zones that a panel reports in its status with the ones we would provision it with.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   * @param panelObject PanelObjectInterface  The status response object of the panel.
+   * @param listenerObject object  Details object for this plugin's listening server (the port isn't compared when undefined).
+   * @param panelPayloadAccessories PanelZonesPayloadInterface  The payload of zones built by configureZones.
+   * @returns string[]  Descriptions of what differs, empty if the panel is up to date.
+   */
+  diffPanelSettings(
+    panelUUID: string,
+    panelObject: PanelObjectInterface,
+    listenerObject,
+    panelPayloadAccessories: PanelZonesPayloadInterface
+  ) {
+    const panelChanges: string[] = [];
+    const listeningEndpoint = `http://${listenerObject.ip}:${listenerObject.port ?? '(automatic port)'}/api/konnected`;
+
+    // if the settings property does not exist in the response, then we have an unprovisioned panel
+    if (!panelObject.settings || Object.keys(panelObject.settings).length === 0) {
+      panelChanges.push('panel is not provisioned');
+      return panelChanges;
+    }
+
+    // panels without a stored auth token must be provisioned to receive one
+    if (!this.panelTokens[panelUUID]) {
+      panelChanges.push('panel has no stored authentication token');
+    } else if (
+      typeof panelObject.settings['token'] !== 'undefined' &&
+      panelObject.settings['token'] !== this.panelTokens[panelUUID]
+    ) {
+      panelChanges.push('authentication token changed');
+    }
+
+    // if the IP address or port are not the same, reprovision endpoint component
+    const panelBroadcastEndpoint = new URL(panelObject.settings.endpoint);
+    if (
+      panelObject.settings.endpoint_type !== 'rest' ||
+      panelBroadcastEndpoint.hostname !== listenerObject.ip ||
+      (typeof listenerObject.port !== 'undefined' && Number(panelBroadcastEndpoint.port) !== listenerObject.port)
+    ) {
+      panelChanges.push(`endpoint changed from '${panelObject.settings.endpoint}' to '${listeningEndpoint}'`);
+    }
+
+    // zones are identified by their zone (Pro) or pin (V1-V2)
+    const zoneKey = (panelZone: PanelZoneInterface) =>
+      typeof panelZone.zone !== 'undefined' ? `zone ${panelZone.zone}` : `pin ${panelZone.pin}`;
+
+    Object.entries(panelPayloadAccessories).forEach(([zoneGroup, desiredZones]: [string, PanelZoneInterface[]]) => {
+      const reportedZones: PanelZoneInterface[] = panelObject[zoneGroup] || [];
+
+      desiredZones.forEach((desiredZone) => {
+        const reportedZone = reportedZones.find((reportedZone) => zoneKey(reportedZone) === zoneKey(desiredZone));
+        if (typeof reportedZone === 'undefined') {
+          panelChanges.push(`${zoneGroup}: added ${zoneKey(desiredZone)}`);
+          return;
+        }
+        // only compare properties the panel reports, older firmware may not report all of them
+        ['trigger', 'poll_interval'].forEach((property) => {
+          if (
+            typeof desiredZone[property] !== 'undefined' &&
+            typeof reportedZone[property] !== 'undefined' &&
+            Number(desiredZone[property]) !== Number(reportedZone[property])
+          ) {
+            panelChanges.push(
+              `${zoneGroup}: ${zoneKey(desiredZone)} ${property} changed from ${reportedZone[property]} to ${desiredZone[property]}`
+            );
+          }
+        });
+      });
+
+      reportedZones.forEach((reportedZone) => {
+        if (!desiredZones.find((desiredZone) => zoneKey(desiredZone) === zoneKey(reportedZone))) {
+          panelChanges.push(`${zoneGroup}: removed ${zoneKey(reportedZone)}`);
+        }
+      });
+    });
+
+    return panelChanges;
+  }
+
   /**
    * Discover alarm panels on the network.
    * @reference https://help.konnected.io/support/solutions/articles/32000026805-discovery
@@ -314,12 +1099,15 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
    * Konnected SSDP Search Targets:
    * @reference Alarm Panel V1-V2: urn:schemas-konnected-io:device:Security:1
    * @reference Alarm Panel Pro: urn:schemas-konnected-io:device:Security:2
+   *
+   * @param skippedUUIDs string[]  UUIDs of panels to ignore because they have already been found.
    */
-  discoverPanels() {
+  discoverPanels(skippedUUIDs: string[] = []) {
     const ssdpClient = new client.Client();
     const ssdpUrnPartial = 'urn:schemas-konnected-io:device';
     const ssdpDeviceIDs: string[] = []; // used later for deduping SSDP reflections
     const excludedUUIDs: string[] = String(process.env.KONNECTED_EXCLUDES).split(','); // used for ignoring specific panels (mostly for development)
+    excludedUUIDs.push(...skippedUUIDs); // used for ignoring panels that were already found by probing
 
     // set discovery state
     this.ssdpDiscovering = true;
@@ -342,38 +1130,7 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
           fetch(ssdpHeaderLocation.replace('Device.xml', 'status'))
             // convert response to JSON
             .then((fetchResponse) => fetchResponse.json())
-            .then((panelResponseObject) => {
-              // create listener object to pass back to panel when provisioning it
-              const listenerObject = {
-                ip: this.listenerIP,
-                port: this.listenerPort,
-              };
-
-              // use the above information to construct panel in Homebridge config
-              this.updateHomebridgeConfig(panelUUID, panelResponseObject);
-
-              // if the settings property does not exist in the response,
-              // then we have an unprovisioned panel
-              if (Object.keys(panelResponseObject.settings).length === 0) {
-                this.provisionPanel(panelUUID, panelResponseObject, listenerObject);
-              } else {
-                if (panelResponseObject.settings.endpoint_type === 'rest') {
-                  const panelBroadcastEndpoint = new URL(panelResponseObject.settings.endpoint);
-
-                  // if the IP address or port are not the same, reprovision endpoint component
-                  if (
-                    panelBroadcastEndpoint.host !== this.listenerIP ||
-                    Number(panelBroadcastEndpoint.port) !== this.listenerPort
-                  ) {
-                    this.provisionPanel(panelUUID, panelResponseObject, listenerObject);
-                  }
-                } else if (panelResponseObject.settings.endpoint_type === 'aws_iot') {
-                  this.log.error(
-                    `ERROR: Cannot provision panel ${panelUUID} with Homebridge. Panel has previously been provisioned with another platform (Konnected Cloud, SmartThings, Home Assistant, Hubitat,. etc). Please factory reset your Konnected Alarm panel and disable any other platform connectors before associating the panel with Homebridge.`
-                  );
-                }
-              }
-            });
+            .then((panelResponseObject) => this.setupPanel(panelUUID, panelResponseObject));
 
           // add the UUID to the deduping array
           ssdpDeviceIDs.push(panelUUID);
@@ -392,7 +1149,7 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
         this.log.debug(
           `Discovery attempt ${this.ssdpDiscoverAttempts} could not find any panels on the network. Retrying...`
         );
-        this.discoverPanels();
+        this.discoverPanels(skippedUUIDs);
       } else {
         this.ssdpDiscoverAttempts = 0;
         this.log.debug(
@@ -403,24 +1160,309 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
   }
 
   /**
-   * Update Homebridge config.json with discovered panel information.
+   * Get the short UUID of a panel, used as the prefix of its zones' serial numbers.
+   *
+   * If there's a chipId in the panelObject, use that, or use mac address.
+   * V1/V2 panels only have one interface (WiFi). Panels with chipId are Pro versions
+   * with two network interfaces (WiFi & Ethernet) with separate mac addresses.
+   * If one network interface goes down, the panel can fallback to the other
+   * interface and the accessories lose their associated UUID, which can
+   * result in duplicated accessories, half of which become non-responsive.
    *
    * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
-   * @param panelObject PanelObjectInterface  The status response object of the plugin from discovery.
+   * @param panelObject PanelObjectInterface  The status response object of the panel.
    */
-  updateHomebridgeConfig(panelUUID: string, panelObject: PanelObjectInterface) {
-    // homebridge constants
-    const config = this.api.user.configPath();
-    const storage = this.api.user.storagePath();
+  getPanelShortUUID(panelUUID: string, panelObject: PanelObjectInterface) {
+    return 'chipId' in panelObject ? panelUUID.match(/([^-]+)$/i)![1] : panelObject.mac.replace(/:/g, '');
+  }
 
-    // get and clone config
-    const existingConfig = JSON.parse(fs.readFileSync(config).toString());
-    const modifiedConfig = JSON.parse(JSON.stringify(existingConfig));
+  /**
+   * Poll the status of every discovered panel on an interval to detect panels that stop responding.
+   * When a panel misses too many heartbeats, its zones and the security system are flagged with a fault
+   * until the panel responds again.
+   */
+  monitorPanelHeartbeats() {
+    if (this.heartbeatInterval <= 0) {
+      return;
+    }
 
-    // check backups/config-backups directory exists, if not use base storage directory
-    const backup = fs.existsSync(`${storage}/backups/config-backups/`)
-      ? `${storage}/backups/config-backups/config.json.${new Date().getTime()}`
-      : `${storage}/config.json.${new Date().getTime()}`;
+    this.heartbeatTimerHandle = setInterval(() => {
+      Object.entries(this.panels).forEach(([panelUUID, panelObject]) => {
+        // a panel whose previous heartbeat is still waiting for a response is not polled again
+        if (this.panelHeartbeats[panelUUID]?.pending === true) {
+          return;
+        }
+
+        // use the configured address of the panel if it exists, otherwise the last reported one
+        const configPanel = this.config.panels?.find((configPanel) => this.isConfigPanel(configPanel, panelUUID));
+        const panelIP: string = configPanel?.ipAddress ? configPanel.ipAddress : panelObject.ip;
+        const panelPort: number = configPanel?.port ? configPanel.port : panelObject.port;
+
+        const checkPanelStatus = async (url: string) => {
+          this.panelHeartbeats[panelUUID].pending = true;
+          try {
+            const response = await fetch(url, { timeout: 5000 });
+            this.panels[panelUUID] = await response.json();
+            this.markPanelSeen(panelUUID);
+          } catch (error: unknown) {
+            const panelHeartbeat = this.panelHeartbeats[panelUUID];
+            panelHeartbeat.missed++;
+            this.log.debug(
+              `Panel ${panelUUID} missed heartbeat ${panelHeartbeat.missed} of ${this.heartbeatMissedLimit}:`,
+              error instanceof Error ? error['message'] : error
+            );
+            if (panelHeartbeat.online && panelHeartbeat.missed >= this.heartbeatMissedLimit) {
+              panelHeartbeat.online = false;
+              this.log.error(
+                `Panel ${panelUUID} at ${panelIP}:${panelPort} is offline, last seen ${new Date(panelHeartbeat.lastSeen).toISOString()}`
+              );
+              this.updatePanelFault(panelUUID);
+              this.emitEvent('panelOffline', { panel: panelUUID, lastSeen: new Date(panelHeartbeat.lastSeen).toISOString() });
+            }
+          } finally {
+            this.panelHeartbeats[panelUUID].pending = false;
+          }
+        };
+        checkPanelStatus(`http://${panelIP}:${panelPort}/status`);
+      });
+    }, this.heartbeatInterval);
+
+    // restart/crash cleanup
+    const cleanup = () => {
+      clearInterval(this.heartbeatTimerHandle);
+    };
+    process.on('SIGINT', cleanup).on('SIGTERM', cleanup);
+  }
+
+  /**
+   * Record that a panel has been heard from, and clear its fault if it was offline.
+   *
+   * @param panelID string  UUID or short UUID of the panel.
+   */
+  markPanelSeen(panelID: string) {
+    // panels calling the listening server identify themselves by their short UUID
+    const panelUUID = Object.keys(this.panels).find(
+      (panelUUID) => panelUUID === panelID || this.getPanelShortUUID(panelUUID, this.panels[panelUUID]) === panelID
+    );
+    if (typeof panelUUID === 'undefined') {
+      return;
+    }
+
+    const panelHeartbeat = this.panelHeartbeats[panelUUID];
+    if (typeof panelHeartbeat === 'undefined') {
+      this.panelHeartbeats[panelUUID] = { lastSeen: Date.now(), missed: 0, online: true };
+      return;
+    }
+
+    const wasOffline = !panelHeartbeat.online;
+    const offlineDuration = Math.round((Date.now() - panelHeartbeat.lastSeen) / 1000);
+
+    panelHeartbeat.lastSeen = Date.now();
+    panelHeartbeat.missed = 0;
+    panelHeartbeat.online = true;
+
+    if (wasOffline) {
+      this.log.info(`Panel ${panelUUID} is back online after ${offlineDuration} seconds`);
+      this.updatePanelFault(panelUUID);
+      this.emitEvent('panelOnline', { panel: panelUUID, offlineDuration: offlineDuration });
+    }
+  }
+
+  /**
+   * Whether a panel is offline or has failed to be provisioned.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   */
+  isPanelFaulted(panelUUID: string) {
+    return this.panelHeartbeats[panelUUID]?.online === false || this.panelProvisioning[panelUUID]?.status === 'failed';
+  }
+
+  /**
+   * Set or clear the StatusFault characteristic on every zone accessory of a panel and on the security system,
+   * based on whether the panel is offline or failed provisioning.
+   * The security system remains faulted while any panel is faulted.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   */
+  updatePanelFault(panelUUID: string) {
+    const panelShortUUID = this.getPanelShortUUID(panelUUID, this.panels[panelUUID]);
+    const fault = this.isPanelFaulted(panelUUID);
+
+    this.accessoriesRuntimeCache
+      .filter((runtimeCacheAccessory) => runtimeCacheAccessory.serialNumber.split('-')[0] === panelShortUUID)
+      .forEach((runtimeCacheAccessory) => {
+        this.setAccessoryFault(runtimeCacheAccessory.UUID, 'panel', fault);
+      });
+
+    this.setAccessoryFault(
+      this.securitySystemUUID,
+      'panel',
+      Object.keys(this.panels).some((panelUUID) => this.isPanelFaulted(panelUUID))
+    );
+  }
+
+  /**
+   * Set or clear a reason for the fault of an accessory, and set the StatusFault characteristic of the accessory's service
+   * (if the service supports it) while the accessory has any reason to be faulted.
+   *
+   * @param accessoryUUID string  HAP UUID for the accessory.
+   * @param reason string  The reason of the fault: the panel of the accessory is faulted, or the accessory is chattering.
+   * @param faulted boolean  Whether the accessory is faulted for this reason.
+   */
+  setAccessoryFault(accessoryUUID: string, reason: 'panel' | 'chatter', faulted: boolean) {
+    const service: Service | undefined = this.konnectedPlatformAccessories[accessoryUUID]?.service;
+
+    const faultReasons = (this.accessoryFaultReasons[accessoryUUID] || []).filter((faultReason) => faultReason !== reason);
+    if (faulted) {
+      faultReasons.push(reason);
+    }
+    this.accessoryFaultReasons[accessoryUUID] = faultReasons;
+    const fault = faultReasons.length > 0;
+
+    if (
+      service &&
+      (service.testCharacteristic(this.Characteristic.StatusFault) ||
+        service.optionalCharacteristics.some((characteristic) => characteristic.UUID === this.Characteristic.StatusFault.UUID))
+    ) {
+      service.updateCharacteristic(
+        this.Characteristic.StatusFault,
+        fault ? this.Characteristic.StatusFault.GENERAL_FAULT : this.Characteristic.StatusFault.NO_FAULT
+      );
+    }
+  }
+
+  /**
+   * Set or clear the StatusTampered characteristic of an accessory's service (if the service supports it).
+   *
+   * @param accessoryUUID string  HAP UUID for the accessory.
+   * @param tampered boolean  Whether the accessory is tampered with.
+   */
+  setAccessoryTampered(accessoryUUID: string, tampered: boolean) {
+    const service: Service | undefined = this.konnectedPlatformAccessories[accessoryUUID]?.service;
+
+    if (
+      service &&
+      (service.testCharacteristic(this.Characteristic.StatusTampered) ||
+        service.optionalCharacteristics.some((characteristic) => characteristic.UUID === this.Characteristic.StatusTampered.UUID))
+    ) {
+      service.updateCharacteristic(
+        this.Characteristic.StatusTampered,
+        tampered ? this.Characteristic.StatusTampered.TAMPERED : this.Characteristic.StatusTampered.NOT_TAMPERED
+      );
+    }
+  }
+
+  /**
+   * Load the bearer auth tokens of previously provisioned panels from Homebridge storage.
+   * If the plugin is configured to rotate tokens, the stored tokens are discarded
+   * and each panel will be reprovisioned with a new token when it is discovered.
+   * Rotating is done once, the setting is turned off again in the Homebridge config.
+   *
+   * @param rotateTokens boolean  Whether to rotate the tokens (default: as configured, false for a dry run).
+   */
+  loadPanelTokens(rotateTokens = this.config.advanced?.rotateTokens === true) {
+    if (rotateTokens) {
+      this.log.warn('Rotating panel authentication tokens, all panels will be reprovisioned.');
+      this.panelTokens = {};
+      this.savePanelTokens();
+      this.clearRotateTokensConfig();
+    } else if (fs.existsSync(this.panelTokensPath)) {
+      try {
+        this.panelTokens = JSON.parse(fs.readFileSync(this.panelTokensPath).toString());
+      } catch (error: unknown) {
+        if (error instanceof Error) {
+          this.log.error(`Could not read stored panel authentication tokens: ${error['message']}`);
+        }
+        this.panelTokens = {};
+      }
+    }
+
+    // add to array for listening authorization
+    Object.values(this.panelTokens).forEach((token) => {
+      if (!this.listenerAuth.includes(token)) {
+        this.listenerAuth.push(token);
+      }
+    });
+  }
+
+  /**
+   * Turn off the rotation of panel authentication tokens in Homebridge config.json once the tokens have been rotated,
+   * so the panels are not reprovisioned again on every restart.
+   *
+   * @param attempt number  The attempt number, the update is retried if config.json is modified while we update it or can't be written.
+   */
+  clearRotateTokensConfig(attempt = 1) {
+    const existingConfigText = fs.readFileSync(this.api.user.configPath()).toString();
+    const modifiedConfig = JSON.parse(existingConfigText);
+
+    const platform = modifiedConfig.platforms.findIndex((config: { [key: string]: unknown }) => config.platform === 'konnected');
+    if (platform < 0 || modifiedConfig.platforms[platform].advanced?.rotateTokens !== true) {
+      return;
+    }
+    modifiedConfig.platforms[platform].advanced.rotateTokens = false;
+
+    if (!this.writeHomebridgeConfig(existingConfigText, modifiedConfig)) {
+      if (attempt < 3) {
+        this.log.warn(
+          'Homebridge config.json was modified or could not be written while turning off token rotation, retrying with the latest version...'
+        );
+        this.clearRotateTokensConfig(attempt + 1);
+      } else {
+        this.log.error(
+          'Could not turn off token rotation in Homebridge config.json, the file keeps being modified by another process or cannot be written. Turn it off to stop reprovisioning panels on every restart.'
+        );
+      }
+    }
+  }
+
+  /**
+   * Write the bearer auth tokens of provisioned panels to Homebridge storage.
+   */
+  savePanelTokens() {
+    try {
+      WriteFileAtomic(this.panelTokensPath, JSON.stringify(this.panelTokens, null, 4));
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        this.log.error(`Could not store panel authentication tokens: ${error['message']}`);
+      }
+    }
+  }
+
+  /**
+   * Get the bearer auth token for a panel, generating and storing a new one if the panel doesn't have one yet.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   */
+  getPanelToken(panelUUID: string) {
+    if (!this.panelTokens[panelUUID]) {
+      this.panelTokens[panelUUID] = uuidv4(); // generate an RFC4122 compliant UUID
+      this.savePanelTokens();
+    }
+
+    // add to array for listening authorization
+    if (!this.listenerAuth.includes(this.panelTokens[panelUUID])) {
+      this.listenerAuth.push(this.panelTokens[panelUUID]);
+    }
+
+    return this.panelTokens[panelUUID];
+  }
+
+  /**
+   * Update Homebridge config.json with discovered panel information.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   * @param panelObject PanelObjectInterface  The status response object of the plugin from discovery.
+   * @param attempt number  The attempt number, the update is retried if config.json is modified while we update it or can't be written.
+   */
+  updateHomebridgeConfig(panelUUID: string, panelObject: PanelObjectInterface, attempt = 1) {
+    // homebridge constants
+    const config = this.api.user.configPath();
+
+    // get and clone config
+    const existingConfigText = fs.readFileSync(config).toString();
+    const existingConfig = JSON.parse(existingConfigText);
+    const modifiedConfig = JSON.parse(JSON.stringify(existingConfig));
+    let configModified = false;
 
     // get index of my platform
     const platform = modifiedConfig.platforms.findIndex((config: { [key: string]: unknown }) => config.platform === 'konnected');
@@ -431,7 +1473,15 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       modifiedConfig.platforms[platform].panels = modifiedConfig.platforms[platform].panels || [];
 
       // find existing definition of the panel
-      const platformPanelPosition = modifiedConfig.platforms[platform].panels.findIndex((panel: { [key: string]: unknown }) => panel.uuid === panelUUID);
+      let platformPanelPosition = modifiedConfig.platforms[platform].panels.findIndex((panel: { [key: string]: unknown }) => panel.uuid === panelUUID);
+
+      // or a manually added panel definition without a UUID at the same address
+      if (platformPanelPosition < 0) {
+        platformPanelPosition = modifiedConfig.platforms[platform].panels.findIndex(
+          (panel: { [key: string]: unknown }) =>
+            !panel.uuid && panel.ipAddress === panelObject.ip && panel.port === panelObject.port
+        );
+      }
 
       if (platformPanelPosition < 0) {
         // if panel doesn't exist, push to panels array and write backup and config
@@ -444,23 +1494,100 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
           ipAddress: panelObject.ip,
           port: panelObject.port,
         });
-        fs.writeFileSync(backup, JSON.stringify(existingConfig, null, 4));
-        fs.writeFileSync(config, JSON.stringify(modifiedConfig, null, 4));
+        configModified = true;
       } else if (
-        modifiedConfig.platforms[platform].panels[platformPanelPosition].uuid === panelUUID &&
-        (modifiedConfig.platforms[platform].panels[platformPanelPosition].ipAddress !== panelObject.ip ||
-          modifiedConfig.platforms[platform].panels[platformPanelPosition].port !== panelObject.port)
+        modifiedConfig.platforms[platform].panels[platformPanelPosition].uuid !== panelUUID ||
+        modifiedConfig.platforms[platform].panels[platformPanelPosition].ipAddress !== panelObject.ip ||
+        modifiedConfig.platforms[platform].panels[platformPanelPosition].port !== panelObject.port
       ) {
-        // if the IP address or port is the same don't update the config
+        // if the UUID, IP address and port are the same don't update the config
         modifiedConfig.platforms[platform].panels[platformPanelPosition].name = (
           panelObject.model && panelObject.model !== '' ? panelObject.model : 'Konnected V1-V2'
         ).replace(/[^A-Za-z0-9\s/'":\-#.]/gi, '');
         modifiedConfig.platforms[platform].panels[platformPanelPosition].uuid = panelUUID;
         modifiedConfig.platforms[platform].panels[platformPanelPosition].ipAddress = panelObject.ip;
         modifiedConfig.platforms[platform].panels[platformPanelPosition].port = panelObject.port;
+        configModified = true;
+      }
+    }
+
+    if (configModified && !this.writeHomebridgeConfig(existingConfigText, modifiedConfig)) {
+      // config.json was changed by someone else (e.g., Config UI X) after we read it or the write failed, so apply our change to the latest version
+      if (attempt < 3) {
+        this.log.warn('Homebridge config.json was modified or could not be written while updating panel details, retrying with the latest version...');
+        this.updateHomebridgeConfig(panelUUID, panelObject, attempt + 1);
+      } else {
+        this.log.error(
+          `Could not update Homebridge config.json with details of panel ${panelUUID}, the file keeps being modified by another process or can't be written.`
+        );
+      }
+    }
+  }
+
+  /**
+   * Back up and atomically write the Homebridge config.json, unless it changed since it was read.
+   *
+   * @param existingConfigText string  The contents of config.json as read before modifying it.
+   * @param modifiedConfig object  The modified config to write.
+   * @returns boolean  False if config.json was modified by another process or could not be written.
+   */
+  writeHomebridgeConfig(existingConfigText: string, modifiedConfig: Record<string, unknown>) {
+    // homebridge constants
+    const config = this.api.user.configPath();
+    const storage = this.api.user.storagePath();
+
+    // check backups/config-backups directory exists, if not use base storage directory
+    const backupDirectory = fs.existsSync(`${storage}/backups/config-backups/`)
+      ? `${storage}/backups/config-backups`
+      : storage;
+
+    // detect concurrent modification between our read and our write
+    if (fs.readFileSync(config).toString() !== existingConfigText) {
+      return false;
+    }
+
+    try {
+      WriteFileAtomic(path.join(backupDirectory, `config.json.konnected.${new Date().getTime()}`), existingConfigText);
+      WriteFileAtomic(config, JSON.stringify(modifiedConfig, null, 4));
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        this.log.error(`Could not write Homebridge config.json: ${error['message']}`);
+      }
+      return false;
+    }
 
-        fs.writeFileSync(backup, JSON.stringify(existingConfig, null, 4));
-        fs.writeFileSync(config, JSON.stringify(modifiedConfig, null, 4));
+    this.pruneHomebridgeConfigBackups(backupDirectory);
+    return true;
+  }
+
+  /**
+   * Remove the config.json backups made by this plugin that exceed the configured count or age.
+   * Backups made by Homebridge or Config UI X are left alone.
+   *
+   * @param backupDirectory string  The directory the backups are written to.
+   */
+  pruneHomebridgeConfigBackups(backupDirectory: string) {
+    const maxCount: number = this.config.advanced?.configBackupSettings?.maxCount
+      ? this.config.advanced.configBackupSettings.maxCount
+      : 10;
+    const maxAge: number = this.config.advanced?.configBackupSettings?.maxAge
+      ? this.config.advanced.configBackupSettings.maxAge * 86400000
+      : 0; // zero = no age limit
+
+    try {
+      fs.readdirSync(backupDirectory)
+        .filter((fileName) => /^config\.json\.konnected\.\d+$/.test(fileName))
+        .sort((a, b) => Number(b.split('.').pop()) - Number(a.split('.').pop())) // newest first
+        .forEach((fileName, index) => {
+          const backupAge = Date.now() - Number(fileName.split('.').pop());
+          if (index >= maxCount || (maxAge > 0 && backupAge > maxAge)) {
+            fs.unlinkSync(path.join(backupDirectory, fileName));
+            this.log.debug(`Removed old config.json backup: ${fileName}`);
+          }
+        });
+    } catch (error: unknown) {
+      if (error instanceof Error) {
+        this.log.error(`Could not remove old config.json backups: ${error['message']}`);
       }
     }
   }
@@ -473,52 +1600,93 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
    * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
    * @param panelObject PanelObjectInterface  The status response object of the plugin from discovery.
    * @param listenerObject object  Details object for this plugin's listening server.
+   * @param panelPayloadAccessories PanelZonesPayloadInterface  The payload of zones built by configureZones.
    */
-  provisionPanel(panelUUID: string, panelObject: PanelObjectInterface, listenerObject) {
+  provisionPanel(
+    panelUUID: string,
+    panelObject: PanelObjectInterface,
+    listenerObject,
+    panelPayloadAccessories: PanelZonesPayloadInterface
+  ) {
     let panelIP: string = panelObject.ip;
     let panelPort: number = panelObject.port;
-    let panelBlink = true;
-    let panelName;
+    let panelName: string = panelObject.model ? panelObject.model : 'Konnected V1-V2';
 
     // if there are panels in the plugin config
     if (typeof this.config.panels !== 'undefined') {
       // loop through the available panels
       for (const configPanel of this.config.panels) {
         // isolate specific panel and make sure there are zones in that panel
-        if (configPanel.uuid === panelUUID) {
+        if (this.isConfigPanel(configPanel, panelUUID)) {
           panelIP = configPanel.ipAddress ? configPanel.ipAddress : panelObject.ip;
           panelPort = configPanel.port ? configPanel.port : panelObject.port;
-          panelBlink = typeof configPanel.blink !== 'undefined' ? configPanel.blink : true;
-          panelName = configPanel.name ? configPanel.name : '';
+          panelName = configPanel.name ? configPanel.name : panelName;
         }
       }
     }
 
-    const listeningEndpoint = `http://${listenerObject.ip}:${listenerObject.port}/api/konnected`;
     const panelSettingsEndpoint = `http://${panelIP}:${panelPort}/settings`;
 
-    const bearerAuthToken = uuidv4(); // generate an RFC4122 compliant UUID
-    this.listenerAuth.push(bearerAuthToken); // add to array for listening authorization
+    const panelConfigurationPayload = this.buildPanelConfigurationPayload(
+      panelUUID,
+      listenerObject,
+      panelPayloadAccessories,
+      this.getPanelToken(panelUUID)
+    );
 
-    const panelPayloadCore = {
-      endpoint_type: 'rest',
-      endpoint: listeningEndpoint,
-      token: bearerAuthToken,
-      blink: panelBlink,
-      discovery: true,
-      platform: 'Homebridge',
-    };
+    this.log.debug(`Panel ${panelName} ${panelSettingsEndpoint} rebooting with payload changes:\n` + JSON.stringify(panelConfigurationPayload, null, 2));
 
-    const panelPayloadAccessories = this.configureZones(panelUUID, panelObject);
+    // a new provisioning request replaces any retry still waiting for this panel
+    clearTimeout(this.panelProvisioning[panelUUID]?.retryTimerHandle);
+    const panelProvisioning: PanelProvisioningInterface = (this.panelProvisioning[panelUUID] = {
+      attempts: 0,
+      status: 'pending',
+    });
 
-    const panelConfigurationPayload = {
-      ...panelPayloadCore,
-      ...panelPayloadAccessories,
+    // retry with exponential backoff (5s, 10s, 20s, ...) until the maximum attempts are reached
+    const retryProvisioning = (reason: string) => {
+      if (panelProvisioning.attempts >= this.provisioningMaxAttempts) {
+        panelProvisioning.status = 'failed';
+        this.log.error(
+          `Provisioning panel ${panelName} (${panelUUID}) failed after ${panelProvisioning.attempts} attempts: ${reason}. The panel may not be reporting zone changes to Homebridge.`
+        );
+        this.updatePanelFault(panelUUID);
+        this.emitEvent('provisioningFailed', { panel: panelUUID, attempts: panelProvisioning.attempts, reason: reason });
+        return;
+      }
+      const backoff = 5000 * 2 ** (panelProvisioning.attempts - 1);
+      this.log.warn(
+        `Provisioning panel ${panelName} (${panelUUID}) attempt ${panelProvisioning.attempts} failed: ${reason}. Retrying in ${backoff / 1000} seconds...`
+      );
+      panelProvisioning.retryTimerHandle = setTimeout(() => provisionPanelResponse(panelSettingsEndpoint), backoff);
     };
 
-    this.log.debug(`Panel ${panelName} ${panelSettingsEndpoint} rebooting with payload changes:\n` + JSON.stringify(panelConfigurationPayload, null, 2));
+    // re-read the panel status after it reboots and check that it reports what was sent
+    const verifyPanelResponse = async (url: string) => {
+      try {
+        const panelResponseObject = await (await fetch(url, { timeout: 5000 })).json();
+        this.panels[panelUUID] = panelResponseObject;
+        this.markPanelSeen(panelUUID);
+
+        const panelChanges = this.diffPanelSettings(panelUUID, panelResponseObject, listenerObject, panelPayloadAccessories);
+        if (panelChanges.length > 0) {
+          retryProvisioning('panel reports different settings (' + panelChanges.join(', ') + ')');
+          return;
+        }
+
+        panelProvisioning.status = 'verified';
+        this.log.info(`Provisioning panel ${panelName} (${panelUUID}) verified after ${panelProvisioning.attempts} attempt(s)`);
+        this.updatePanelFault(panelUUID);
+        this.emitEvent('provisioned', { panel: panelUUID, attempts: panelProvisioning.attempts });
+      } catch (error: unknown) {
+        retryProvisioning(`could not read the panel status (${error instanceof Error ? error['message'] : error})`);
+      }
+    };
 
     const provisionPanelResponse = async (url: string) => {
+      panelProvisioning.attempts++;
+      this.incrementMetric('konnected_provisioning_attempts_total', { panel: panelUUID });
+
       try {
         await fetch(url, {
           method: 'PUT',
@@ -532,56 +1700,83 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
               `The panel at ${url} has disconnected and is likely rebooting to apply new provisioning settings`
             );
           } else {
-            this.log.error(error['message']);
+            retryProvisioning(error['message']);
+            return;
           }
         }
       }
+
+      // wait for the panel to reboot before verifying
+      panelProvisioning.retryTimerHandle = setTimeout(
+        () => verifyPanelResponse(`http://${panelIP}:${panelPort}/status`),
+        this.provisioningVerifyDelay
+      );
     };
     provisionPanelResponse(panelSettingsEndpoint);
   }
 
+  /**
+   * Build the full settings payload for provisioning a panel.
+   *
+   * @param panelUUID string  UUID for the panel as reported in the USN on discovery.
+   * @param listenerObject object  Details object for this plugin's listening server.
+   * @param panelPayloadAccessories PanelZonesPayloadInterface  The payload of zones built by configureZones.
+   * @param bearerAuthToken string  The token the panel must use when calling the listening server.
+   */
+  buildPanelConfigurationPayload(
+    panelUUID: string,
+    listenerObject,
+    panelPayloadAccessories: PanelZonesPayloadInterface,
+    bearerAuthToken: string
+  ) {
+    const configPanel = this.config.panels?.find((configPanel) => this.isConfigPanel(configPanel, panelUUID));
+
+    const panelPayloadCore = {
+      endpoint_type: 'rest',
+      endpoint: `http://${listenerObject.ip}:${listenerObject.port}/api/konnected`,
+      token: bearerAuthToken,
+      blink: typeof configPanel?.blink !== 'undefined' ? configPanel.blink : true,
+      discovery: true,
+      platform: 'Homebridge',
+    };
+
+    return {
+      ...panelPayloadCore,
+      ...panelPayloadAccessories,
+    };
+  }
+
   /**
    * Build the payload of zones for provisioning on a panel.
    * Store the configuration of zones in the accessoriesRuntimeCache.
+   * Invalid zones are left out of the payload with a warning.
    *
    * @param panelUUID string  The unique identifier for the panel itself.
    * @param panelObject PanelObjectInterface  The status response object of the plugin from discovery.
+   * @param registerZones boolean  Whether to store the zones in the runtime cache and register them as accessories (false for a dry run).
    */
-  configureZones(panelUUID: string, panelObject: PanelObjectInterface) {
-    const sensors: unknown[] = [];
-    const dht_sensors: unknown[] = [];
-    const ds18b20_sensors: unknown[] = [];
-    const actuators: unknown[] = [];
+  configureZones(panelUUID: string, panelObject: PanelObjectInterface, registerZones = true) {
+    const sensors: PanelZoneInterface[] = [];
+    const dht_sensors: PanelZoneInterface[] = [];
+    const ds18b20_sensors: PanelZoneInterface[] = [];
+    const actuators: PanelZoneInterface[] = [];
 
     const retainedAccessories: unknown[] = [];
+    const interruptedValves: string[] = [];
 
     // if there are panels in the plugin config
     if (typeof this.config.panels !== 'undefined') {
       // loop through the available panels
       this.config.panels.forEach((configPanel) => {
-        // If there's a chipId in the panelObject, use that, or use mac address.
-        // V1/V2 panels only have one interface (WiFi). Panels with chipId are Pro versions
-        // with two network interfaces (WiFi & Ethernet) with separate mac addresses.
-        // If one network interface goes down, the panel can fallback to the other
-        // interface and the accessories lose their associated UUID, which can
-        // result in duplicated accessories, half of which become non-responsive.
-        const panelShortUUID: string =
-          'chipId' in panelObject ? panelUUID.match(/([^-]+)$/i)![1] : panelObject.mac.replace(/:/g, '');
+        const panelShortUUID: string = this.getPanelShortUUID(panelUUID, panelObject);
 
         // isolate specific panel and make sure there are zones in that panel
-        if (configPanel.uuid === panelUUID && configPanel.zones) {
+        if (this.isConfigPanel(configPanel, panelUUID) && configPanel.zones) {
           // variable for deduping zones with the same zoneNumber (use-case: if users don't use Config UI X to generate their config)
           const existingPayloadZones: string[] = [];
 
           configPanel.zones.forEach((configPanelZone) => {
-            // create type interface for panelZone variable
-            interface PanelZone {
-              pin?: string;
-              zone?: string;
-              trigger?: number;
-              poll_interval?: number;
-            }
-            let panelZone: PanelZone = {};
+            let panelZone: PanelZoneInterface = {};
 
             // assign the pin or zone
             if ('model' in panelObject) {
@@ -594,7 +1789,7 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
               } else if (ZONE_TYPES.actuators.includes(configPanelZone.zoneType)) {
                 // this zone is assigned as an actuator
                 // validate if zone can be an actuator/switch
-                if (ZONES[configPanelZone.zoneNumber].includes(configPanelZone.zoneType)) {
+                if (ZONES[configPanelZone.zoneNumber]?.includes(configPanelZone.zoneType)) {
                   panelZone.zone = configPanelZone.zoneNumber;
                 } else {
                   this.log.warn(
@@ -681,10 +1876,41 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
               if (configPanelZone.binarySensorSettings?.invert) {
                 zoneObject.invert = configPanelZone.binarySensorSettings.invert;
               }
+              // add invert property of buttons if configured
+              if (configPanelZone.buttonSettings?.invert) {
+                zoneObject.invert = configPanelZone.buttonSettings.invert;
+              }
+              // add buttonSettings property if configured
+              if (['button', 'doorbell'].includes(configPanelZone.zoneType) && configPanelZone.buttonSettings) {
+                zoneObject.buttonSettings = configPanelZone.buttonSettings;
+              }
               // add audibleBeep property if configured
               if (configPanelZone.binarySensorSettings?.audibleBeep) {
                 zoneObject.audibleBeep = configPanelZone.binarySensorSettings.audibleBeep;
               }
+              // add 24-hour zone property if configured (smoke, co and water zones are 24-hour zones by default)
+              if (typeof configPanelZone.binarySensorSettings?.twentyFourHour !== 'undefined') {
+                zoneObject.twentyFourHour = configPanelZone.binarySensorSettings.twentyFourHour;
+              }
+              // add entry delay type property if configured
+              if (configPanelZone.binarySensorSettings?.delayType) {
+                zoneObject.delayType = configPanelZone.binarySensorSettings.delayType;
+              }
+              // add bypass switch properties if configured
+              if (configPanelZone.binarySensorSettings?.bypassSwitch) {
+                zoneObject.bypassSwitch = configPanelZone.binarySensorSettings.bypassSwitch;
+              }
+              if (configPanelZone.binarySensorSettings?.permanentBypass) {
+                zoneObject.permanentBypass = configPanelZone.binarySensorSettings.permanentBypass;
+              }
+              // add debounce and chatter detection properties if configured
+              if (configPanelZone.binarySensorSettings?.debounceTime) {
+                zoneObject.debounceTime = configPanelZone.binarySensorSettings.debounceTime;
+              }
+              if (configPanelZone.binarySensorSettings?.chatterLimit) {
+                zoneObject.chatterLimit = configPanelZone.binarySensorSettings.chatterLimit;
+                zoneObject.chatterWindow = configPanelZone.binarySensorSettings.chatterWindow;
+              }
               // add trigger property if configured
               if (configPanelZone.switchSettings?.trigger) {
                 zoneObject.trigger = configPanelZone.switchSettings.trigger;
@@ -694,6 +1920,31 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
                 zoneObject.triggerableModes = configPanelZone.binarySensorSettings.triggerableModes;
               } else if (configPanelZone.switchSettings?.triggerableModes) {
                 zoneObject.triggerableModes = configPanelZone.switchSettings.triggerableModes;
+              } else if (configPanelZone.environmentalSensorSettings?.triggerableModes) {
+                zoneObject.triggerableModes = configPanelZone.environmentalSensorSettings.triggerableModes;
+              }
+              // add environmentalSensorSettings property if configured
+              if (
+                ['humidtemp', 'temperature'].includes(configPanelZone.zoneType) &&
+                configPanelZone.environmentalSensorSettings
+              ) {
+                zoneObject.environmentalSensorSettings = configPanelZone.environmentalSensorSettings;
+              }
+              // add motionSettings property if configured
+              if (configPanelZone.zoneType === 'motion' && configPanelZone.motionSettings) {
+                zoneObject.motionSettings = configPanelZone.motionSettings;
+              }
+              // add valveSettings property if configured
+              if (configPanelZone.zoneType === 'valve' && configPanelZone.valveSettings) {
+                zoneObject.valveSettings = configPanelZone.valveSettings;
+              }
+              // add garageDoorSettings property if configured
+              if (configPanelZone.zoneType === 'garagedoor' && configPanelZone.garageDoorSettings) {
+                zoneObject.garageDoorSettings = configPanelZone.garageDoorSettings;
+              }
+              // add tamperSettings property if configured
+              if (configPanelZone.zoneType === 'tamper' && configPanelZone.tamperSettings) {
+                zoneObject.tamperSettings = configPanelZone.tamperSettings;
               }
 
               // store previous state from existing Homebridge's platform accessory cache state
@@ -703,26 +1954,96 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
                   if (typeof accessory.context.device.state !== 'undefined') {
                     zoneObject.state = accessory.context.device.state;
                   }
+                  // bypass state
+                  if (accessory.context.device.bypassed === true) {
+                    zoneObject.bypassed = true;
+                  }
                   // humidity state
                   if (typeof accessory.context.device.humi !== 'undefined') {
                     zoneObject.humi = accessory.context.device.humi;
                   }
                   // temperature state
                   if (typeof accessory.context.device.temp !== 'undefined') {
-                    zoneObject.humi = accessory.context.device.temp;
+                    zoneObject.temp = accessory.context.device.temp;
+                  }
+                  // temperature alert states
+                  if (typeof accessory.context.device.highAlert !== 'undefined') {
+                    zoneObject.highAlert = accessory.context.device.highAlert;
+                  }
+                  if (typeof accessory.context.device.lowAlert !== 'undefined') {
+                    zoneObject.lowAlert = accessory.context.device.lowAlert;
+                  }
+                  // garage door target and obstruction states
+                  if (configPanelZone.zoneType === 'garagedoor') {
+                    zoneObject.targetState = accessory.context.device.targetState;
+                    zoneObject.obstructed = accessory.context.device.obstructed;
+                    // a door that was moving when Homebridge stopped is assumed to have reached its target,
+                    // it is corrected when the panel reports the state of the contact zone
+                    if (
+                      zoneObject.state === this.Characteristic.CurrentDoorState.OPENING ||
+                      zoneObject.state === this.Characteristic.CurrentDoorState.CLOSING
+                    ) {
+                      zoneObject.state =
+                        zoneObject.targetState === this.Characteristic.TargetDoorState.OPEN
+                          ? this.Characteristic.CurrentDoorState.OPEN
+                          : this.Characteristic.CurrentDoorState.CLOSED;
+                    }
+                  }
+                  // valve duration and countdown
+                  if (configPanelZone.zoneType === 'valve') {
+                    zoneObject.duration = accessory.context.device.duration;
+                    zoneObject.endTime = accessory.context.device.endTime;
+                    // a valve that was running when Homebridge stopped has lost its shutoff timer
+                    if (
+                      zoneObject.state === 1 &&
+                      !this.accessoriesRuntimeCache.some((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === zoneUUID)
+                    ) {
+                      interruptedValves.push(zoneUUID);
+                    }
                   }
                 }
               });
 
-              if (configPanelZone.enabled === true) {
-                this.accessoriesRuntimeCache.push(zoneObject);
-
-                // match this zone's UUID to the UUID of an accessory stored in the global accessories cache
-                // store accessory object in an array of retained accessories that we don't want unregistered in Homebridge and HomeKit
-                if (typeof this.accessories.find((accessory) => accessory.UUID === zoneUUID) !== 'undefined') {
-                  retainedAccessories.push(this.accessories.find((accessory) => accessory.UUID === zoneUUID));
+              // a temperature zone with multiple DS18B20 probes has an accessory for each probe instead of the zone,
+              // for the configured probes and the probes that were discovered before
+              let zoneObjects: RuntimeCacheInterface[] = [zoneObject];
+              if (
+                configPanelZone.zoneType === 'temperature' &&
+                (configPanelZone.environmentalSensorSettings?.multipleProbes === true ||
+                  configPanelZone.environmentalSensorSettings?.probes?.length > 0)
+              ) {
+                const probeAddresses: string[] = [];
+                [
+                  ...(configPanelZone.environmentalSensorSettings.probes || []).map((probe) => probe.address),
+                  ...this.accessories
+                    .filter((accessory) => accessory.context.device.serialNumber.startsWith(zoneObject.serialNumber + '-'))
+                    .map((accessory) => accessory.context.device.probeAddress),
+                ].forEach((probeAddress) => {
+                  if (probeAddress && !probeAddresses.includes(String(probeAddress))) {
+                    probeAddresses.push(String(probeAddress));
+                  }
+                });
+                if (registerZones) {
+                  this.probeZones[zoneObject.serialNumber] = zoneObject;
                 }
+                zoneObjects = probeAddresses.map((probeAddress) => this.buildProbeZoneObject(zoneObject, probeAddress));
               }
+
+              zoneObjects.forEach((accessoryZoneObject) => {
+                if (configPanelZone.enabled === true && registerZones) {
+                  // replace the zone if it was already configured (e.g., when the panel is rediscovered)
+                  this.accessoriesRuntimeCache = this.accessoriesRuntimeCache.filter(
+                    (runtimeCacheAccessory) => runtimeCacheAccessory.UUID !== accessoryZoneObject.UUID
+                  );
+                  this.accessoriesRuntimeCache.push(accessoryZoneObject);
+
+                  // match this zone's UUID to the UUID of an accessory stored in the global accessories cache
+                  // store accessory object in an array of retained accessories that we don't want unregistered in Homebridge and HomeKit
+                  if (typeof this.accessories.find((accessory) => accessory.UUID === accessoryZoneObject.UUID) !== 'undefined') {
+                    retainedAccessories.push(this.accessories.find((accessory) => accessory.UUID === accessoryZoneObject.UUID));
+                  }
+                }
+              });
             } else {
               this.log.warn(
                 `Duplicate Zone: Zone number '${configPanelZone.zoneNumber}' is assigned in two or more zones, please check your Homebridge configuration for panel with UUID ${panelUUID}.`
@@ -731,15 +2052,45 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
           }); // end forEach loop (zones)
 
           // Now attempt to register the zones as accessories in Homebridge and HomeKit
-          this.registerAccessories(panelShortUUID, this.accessoriesRuntimeCache, retainedAccessories);
-        } else if (configPanel.uuid === panelUUID && typeof configPanel.zones === 'undefined') {
+          if (registerZones) {
+            this.registerAccessories(panelShortUUID, this.accessoriesRuntimeCache, retainedAccessories);
+
+            // valves that were running when Homebridge stopped get their shutoff timer back for the rest of their duration,
+            // or are turned off if their duration has passed (or they had none)
+            interruptedValves.forEach((valveUUID) => {
+              const valve = this.accessoriesRuntimeCache.find((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === valveUUID);
+              const remainingDuration = valve ? this.getValveRemainingDuration(valve) : 0;
+              if (valve?.endTime && remainingDuration > 0) {
+                this.log.info(
+                  `[${valve.displayName}] (${valve.serialNumber}) as 'valve' was running when Homebridge stopped, turning it off in ${remainingDuration} seconds.`
+                );
+                this.valveTimerHandles[valveUUID] = setTimeout(() => {
+                  this.log.info(`[${valve.displayName}] (${valve.serialNumber}) as '${valve.type}' ran for its duration, turning it off.`);
+                  this.controlValve(valveUUID, false);
+                }, valve.endTime - Date.now());
+                this.konnectedPlatformAccessories[valveUUID]?.service.updateCharacteristic(
+                  this.Characteristic.RemainingDuration,
+                  remainingDuration
+                );
+              } else {
+                this.log.warn(
+                  `[${valve?.displayName}] (${valve?.serialNumber}) as 'valve' was running when Homebridge stopped, turning it off.`
+                );
+                this.controlValve(valveUUID, false);
+              }
+            });
+
+            // restore the tampered status of zones linked to tamper zones that were open when Homebridge stopped
+            this.updateTamperStates();
+          }
+        } else if (this.isConfigPanel(configPanel, panelUUID) && typeof configPanel.zones === 'undefined' && registerZones) {
           this.registerAccessories(panelShortUUID, [], []);
         }
       }); // end forEach loop (panels)
     }
 
     // if there are no zones defined then we use our default blank array variables above this block
-    const panelZonesPayload = {
+    const panelZonesPayload: PanelZonesPayloadInterface = {
       sensors: sensors,
       dht_sensors: dht_sensors,
       ds18b20_sensors: ds18b20_sensors,
@@ -749,6 +2100,74 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
     return panelZonesPayload;
   }
 
+  /**
+   * Build the zone object of a DS18B20 probe from the zone object of the temperature sensor zone it is on.
+   * The probe has its own UUID, serial number and name, and its calibration and thresholds override those of the zone.
+   *
+   * @param zoneObject RuntimeCacheInterface  The temperature sensor zone.
+   * @param probeAddress string  The 1-Wire address of the probe as reported by the panel.
+   */
+  buildProbeZoneObject(zoneObject: RuntimeCacheInterface, probeAddress: string) {
+    const serialNumber = zoneObject.serialNumber + '-' + probeAddress;
+    const UUID = this.api.hap.uuid.generate(serialNumber);
+    const probe = zoneObject.environmentalSensorSettings?.probes?.find((probe) => String(probe.address) === probeAddress);
+
+    const environmentalSensorSettings: EnvironmentalSensorSettingsInterface = { ...zoneObject.environmentalSensorSettings };
+    delete environmentalSensorSettings.multipleProbes;
+    delete environmentalSensorSettings.probes;
+    (['temperatureOffset', 'temperatureScale', 'highThreshold', 'lowThreshold'] as const).forEach((setting) => {
+      if (typeof probe?.[setting] === 'number') {
+        environmentalSensorSettings[setting] = probe[setting];
+      }
+    });
+
+    const probeObject: RuntimeCacheInterface = {
+      UUID: UUID,
+      displayName: probe?.name ? probe.name : zoneObject.displayName + ' ' + probeAddress,
+      enabled: zoneObject.enabled,
+      type: zoneObject.type,
+      model: zoneObject.model,
+      serialNumber: serialNumber,
+      panel: zoneObject.panel,
+      triggerableModes: zoneObject.triggerableModes,
+      environmentalSensorSettings: environmentalSensorSettings,
+      probeAddress: probeAddress,
+    };
+
+    // store previous state from existing Homebridge's platform accessory cache state
+    const existingAccessory = this.accessories.find((accessory) => accessory.UUID === UUID);
+    if (existingAccessory) {
+      probeObject.temp = existingAccessory.context.device.temp;
+      probeObject.highAlert = existingAccessory.context.device.highAlert;
+      probeObject.lowAlert = existingAccessory.context.device.lowAlert;
+    }
+
+    return probeObject;
+  }
+
+  /**
+   * Add an accessory for a DS18B20 probe that reported a reading for the first time.
+   *
+   * @param zoneObject RuntimeCacheInterface  The temperature sensor zone the probe is on.
+   * @param probeAddress string  The 1-Wire address of the probe as reported by the panel.
+   */
+  addProbeAccessory(zoneObject: RuntimeCacheInterface, probeAddress: string) {
+    const probeObject = this.buildProbeZoneObject(zoneObject, probeAddress);
+
+    this.log.info(`Adding new accessory: ${probeObject.displayName} (${probeObject.serialNumber}) for discovered probe '${probeAddress}'`);
+    this.accessoriesRuntimeCache.push(probeObject);
+
+    // build Homebridge/HomeKit platform accessory
+    const newAccessory = new this.api.platformAccessory(probeObject.displayName, probeObject.UUID);
+    // store zone object in the platform accessory cache
+    newAccessory.context.device = probeObject;
+    // store a direct reference to the initialized accessory with service and characteristics in the KonnectedPlatformAccessories object
+    this.konnectedPlatformAccessories[probeObject.UUID] = new KonnectedPlatformAccessory(this, newAccessory);
+
+    this.accessories.push(newAccessory);
+    this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [newAccessory]);
+  }
+
   /**
    * Control the registration of panel zones as accessories in Homebridge (and HomeKit).
    *
@@ -785,6 +2204,7 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       // unregister stale or missing zones/accessories in Homebridge and HomeKit
       accessoriesToRemoveArray.forEach((accessory) => {
         this.log.info(`Removing accessory: ${accessory.displayName} (${accessory.context.device.serialNumber})`);
+        delete this.historyServices[accessory.UUID];
       });
       this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, accessoriesToRemoveArray);
     }
@@ -844,6 +2264,7 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
   /**
    * Update the cache when a panel reports a change in the sensor zone's state.
    * Panels only report state of sensors, so this will only fire for sensors and not actuators.
+   * Binary sensors with a debounce time are updated again once their state has been stable for that time.
    *
    * @param inboundPayload object  The request payload received for the zone at this plugin's listener REST endpoint.
    */
@@ -864,7 +2285,16 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       zoneState = JSON.stringify(inboundPayload.body);
     }
 
-    const zoneUUID = this.api.hap.uuid.generate(inboundPayload.params.id + '-' + panelZone);
+    let zoneUUID = this.api.hap.uuid.generate(inboundPayload.params.id + '-' + panelZone);
+
+    // DS18B20 probes that share a zone are separate accessories, readings are routed by the address of the probe
+    const probeZone = this.probeZones[inboundPayload.params.id + '-' + panelZone];
+    if (probeZone && typeof inboundPayload.body.addr !== 'undefined') {
+      zoneUUID = this.api.hap.uuid.generate(inboundPayload.params.id + '-' + panelZone + '-' + inboundPayload.body.addr);
+      if (!this.accessoriesRuntimeCache.some((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === zoneUUID)) {
+        this.addProbeAccessory(probeZone, String(inboundPayload.body.addr));
+      }
+    }
 
     const existingAccessory = this.accessories.find((accessory) => accessory.UUID === zoneUUID);
 
@@ -878,12 +2308,40 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       // loop through the accessories state cache and update state and service characteristic
       this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
         if (runtimeCacheAccessory.UUID === zoneUUID) {
+          // binary sensors (not buttons) are checked for chatter and debounced before their state is committed
+          if (
+            inboundPayload.debounced !== true &&
+            ZONE_TYPES.sensors.includes(runtimeCacheAccessory.type) &&
+            !['button', 'doorbell'].includes(runtimeCacheAccessory.type)
+          ) {
+            this.detectSensorChatter(
+              runtimeCacheAccessory,
+              runtimeCacheAccessory.invert === true ? (inboundPayload.body.state === 0 ? 1 : 0) : inboundPayload.body.state
+            );
+            if (runtimeCacheAccessory.debounceTime) {
+              clearTimeout(this.sensorDebounceTimerHandles[zoneUUID]);
+              this.sensorDebounceTimerHandles[zoneUUID] = setTimeout(() => {
+                delete this.sensorDebounceTimerHandles[zoneUUID];
+                this.updateSensorAccessoryState({
+                  params: inboundPayload.params,
+                  body: inboundPayload.body,
+                  debounced: true,
+                });
+              }, runtimeCacheAccessory.debounceTime);
+              return;
+            }
+          }
+
           // this is the default state for all binary switches in HomeKit
           let defaultStateValue = 0;
           // incoming state from panel
           const inboundStateValue = inboundPayload.body.state;
           // set default result state
           let resultStateValue = inboundStateValue;
+          // state before this update, for counting changes in the zone's history
+          let previousStateValue: boolean | number | undefined;
+          // motion sensors with motion settings are held and re-triggered before their state changes
+          const motionHeld = runtimeCacheAccessory.type === 'motion' && typeof runtimeCacheAccessory.motionSettings !== 'undefined';
 
           if (!['humidtemp', 'temperature'].includes(runtimeCacheAccessory.type)) {
             // invert the value if configured to have its value inverted
@@ -894,24 +2352,46 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
                 `[${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber}) as ${runtimeCacheAccessory.type} inverted state from '${inboundStateValue}' to '${resultStateValue}'`
               );
             }
+            // a debounced state that ended up where it started is not a change
+            if (inboundPayload.debounced === true && resultStateValue === runtimeCacheAccessory.state) {
+              return;
+            }
             // now check if the accessory should do something: e.g., trigger the alarm, produce an audible beep, etc.
-            this.processSensorAccessoryActions(runtimeCacheAccessory, defaultStateValue, resultStateValue);
+            // (buttons are stateless, held motion is processed when it changes and tamper zones trigger in any armed mode,
+            // they are all processed below instead)
+            if (!['button', 'doorbell', 'tamper'].includes(runtimeCacheAccessory.type) && !motionHeld) {
+              this.processSensorAccessoryActions(runtimeCacheAccessory, defaultStateValue, resultStateValue);
+            }
           }
 
           switch (TYPES_TO_ACCESSORIES[runtimeCacheAccessory.type][0]) {
             case 'ContactSensor':
+              previousStateValue = runtimeCacheAccessory.state;
               runtimeCacheAccessory.state = resultStateValue;
               this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].service.updateCharacteristic(
                 this.Characteristic.ContactSensorState,
                 resultStateValue
               );
+              this.recordZoneHistory(runtimeCacheAccessory, previousStateValue);
+              // the contact may be the position sensor of garage doors
+              this.updateGarageDoorPosition(runtimeCacheAccessory);
+              // or the tamper loop of other zones
+              if ('tamper' === runtimeCacheAccessory.type) {
+                this.processTamper(runtimeCacheAccessory, previousStateValue);
+              }
               break;
             case 'MotionSensor':
+              if (motionHeld) {
+                this.processMotion(runtimeCacheAccessory, defaultStateValue, resultStateValue);
+                break;
+              }
+              previousStateValue = runtimeCacheAccessory.state;
               runtimeCacheAccessory.state = resultStateValue;
               this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].service.updateCharacteristic(
                 this.Characteristic.MotionDetected,
                 resultStateValue
               );
+              this.recordZoneHistory(runtimeCacheAccessory, previousStateValue);
               break;
             case 'LeakSensor':
               runtimeCacheAccessory.state = resultStateValue;
@@ -927,34 +2407,276 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
                 resultStateValue
               );
               break;
+            case 'CarbonMonoxideSensor':
+              runtimeCacheAccessory.state = resultStateValue;
+              this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].service.updateCharacteristic(
+                this.Characteristic.CarbonMonoxideDetected,
+                resultStateValue
+              );
+              break;
+            case 'StatelessProgrammableSwitch':
+            case 'Doorbell':
+              // a normally open button closes its circuit (0) when it is pressed
+              runtimeCacheAccessory.state = resultStateValue;
+              this.processButtonPress(runtimeCacheAccessory, resultStateValue === 0);
+              break;
             case 'TemperatureSensor':
-              runtimeCacheAccessory.temp = inboundPayload.body.temp;
+              runtimeCacheAccessory.temp = this.calibrateTemperature(runtimeCacheAccessory, inboundPayload.body.temp);
               this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].service.updateCharacteristic(
                 this.Characteristic.CurrentTemperature,
                 runtimeCacheAccessory.temp
               );
+              this.updateTemperatureAlerts(runtimeCacheAccessory);
+              this.recordZoneHistory(runtimeCacheAccessory);
               break;
             case 'HumiditySensor':
-              runtimeCacheAccessory.temp = inboundPayload.body.temp;
-              this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].service.updateCharacteristic(
+              runtimeCacheAccessory.temp = this.calibrateTemperature(runtimeCacheAccessory, inboundPayload.body.temp);
+              this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].temperatureSensorService.updateCharacteristic(
                 this.Characteristic.CurrentTemperature,
                 runtimeCacheAccessory.temp
               );
-              runtimeCacheAccessory.humi = inboundPayload.body.humi;
+              runtimeCacheAccessory.humi = this.calibrateHumidity(runtimeCacheAccessory, inboundPayload.body.humi);
               this.konnectedPlatformAccessories[runtimeCacheAccessory.UUID].service.updateCharacteristic(
                 this.Characteristic.CurrentRelativeHumidity,
                 runtimeCacheAccessory.humi
               );
+              this.updateTemperatureAlerts(runtimeCacheAccessory);
+              this.recordZoneHistory(runtimeCacheAccessory);
               break;
 
             default:
               break;
           }
+
+          // publish the change to the live event stream
+          if (['humidtemp', 'temperature'].includes(runtimeCacheAccessory.type)) {
+            this.emitEvent('environment', { zone: this.getZoneStatus(runtimeCacheAccessory) });
+          } else if (!motionHeld) {
+            this.emitEvent('zoneState', { zone: this.getZoneStatus(runtimeCacheAccessory) });
+          }
         }
       });
     }
   }
 
+  /**
+   * Add the state of a contact, motion or environmental sensor zone to its Eve history,
+   * and count the openings and the last activation of contact and motion sensors.
+   *
+   * @param sensor RuntimeCacheInterface  The sensor zone, with its new state.
+   * @param previousStateValue boolean | number  The state of a binary sensor before it changed.
+   */
+  recordZoneHistory(sensor: RuntimeCacheInterface, previousStateValue?: boolean | number) {
+    const konnectedPlatformAccessory = this.konnectedPlatformAccessories[sensor.UUID];
+    const historyService = konnectedPlatformAccessory?.historyService;
+    if (!historyService) {
+      return;
+    }
+
+    const time = Math.round(Date.now() / 1000);
+    const serviceType = TYPES_TO_ACCESSORIES[sensor.type][0];
+
+    if (['TemperatureSensor', 'HumiditySensor'].includes(serviceType)) {
+      historyService.addEntry({ time: time, temp: sensor.temp, humidity: sensor.humi || 0, pressure: 0 });
+      return;
+    }
+
+    // the counters are persisted with the history, so they can only change once it is loaded from storage
+    if (historyService.isHistoryLoaded() && sensor.state !== previousStateValue) {
+      const history = (historyService.getExtraPersistedData() || {}) as ZoneHistoryInterface;
+      if (sensor.state === 1) {
+        history.lastActivation = time;
+        if ('ContactSensor' === serviceType) {
+          history.timesOpened = (history.timesOpened || 0) + 1;
+        }
+      } else if ('ContactSensor' === serviceType) {
+        history.timesClosed = (history.timesClosed || 0) + 1;
+      }
+      historyService.setExtraPersistedData(history);
+
+      konnectedPlatformAccessory.service.updateCharacteristic(
+        this.EveCharacteristic.LastActivation,
+        konnectedPlatformAccessory.getHistoryValue('lastActivation')
+      );
+      if ('ContactSensor' === serviceType) {
+        konnectedPlatformAccessory.service.updateCharacteristic(this.EveCharacteristic.TimesOpened, history.timesOpened || 0);
+      }
+    }
+
+    historyService.addEntry({ time: time, status: Number(sensor.state) });
+  }
+
+  /**
+   * Reset the open and close counts of a contact sensor zone, when requested from the Eve app.
+   *
+   * @param zoneUUID string  The UUID of the contact sensor zone.
+   * @param resetTotal number  The time of the reset, in seconds since 2001-01-01 (Eve's epoch).
+   */
+  resetZoneHistory(zoneUUID: string, resetTotal: number) {
+    const konnectedPlatformAccessory = this.konnectedPlatformAccessories[zoneUUID];
+    const historyService = konnectedPlatformAccessory?.historyService;
+    const sensor = this.accessoriesRuntimeCache.find((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === zoneUUID);
+    if (!historyService || !sensor) {
+      return;
+    }
+
+    const history = (historyService.getExtraPersistedData() || {}) as ZoneHistoryInterface;
+    history.timesOpened = 0;
+    history.timesClosed = 0;
+    history.resetTotal = resetTotal;
+    historyService.setExtraPersistedData(history);
+    historyService.save();
+
+    konnectedPlatformAccessory.service.updateCharacteristic(this.EveCharacteristic.TimesOpened, 0);
+    this.log.info(`[${sensor.displayName}] (${sensor.serialNumber}) as '${sensor.type}' history counts were reset.`);
+    this.emitEvent('historyReset', { zone: this.getZoneStatus(sensor) });
+  }
+
+  /**
+   * Convert a temperature in the temperature unit of a sensor zone to celsius (HomeKit's unit).
+   *
+   * @param sensor RuntimeCacheInterface  The temperature or humidity sensor zone.
+   * @param temperature number  The temperature in the temperature unit of the sensor.
+   */
+  toCelsius(sensor: RuntimeCacheInterface, temperature: number) {
+    return sensor.environmentalSensorSettings?.temperatureUnit === 'fahrenheit' ? ((temperature - 32) * 5) / 9 : temperature;
+  }
+
+  /**
+   * Apply the calibration of a sensor zone to a reported temperature, then convert it to celsius.
+   *
+   * @param sensor RuntimeCacheInterface  The temperature or humidity sensor zone.
+   * @param temperature number  The temperature as reported by the panel.
+   */
+  calibrateTemperature(sensor: RuntimeCacheInterface, temperature: number) {
+    const settings = sensor.environmentalSensorSettings;
+    const scale = typeof settings?.temperatureScale === 'number' ? settings.temperatureScale : 1;
+    const offset = typeof settings?.temperatureOffset === 'number' ? settings.temperatureOffset : 0;
+    return Math.round(this.toCelsius(sensor, temperature * scale + offset) * 10) / 10;
+  }
+
+  /**
+   * Apply the calibration of a sensor zone to a reported relative humidity.
+   *
+   * @param sensor RuntimeCacheInterface  The humidity sensor zone.
+   * @param humidity number  The relative humidity as reported by the panel.
+   */
+  calibrateHumidity(sensor: RuntimeCacheInterface, humidity: number) {
+    const settings = sensor.environmentalSensorSettings;
+    const scale = typeof settings?.humidityScale === 'number' ? settings.humidityScale : 1;
+    const offset = typeof settings?.humidityOffset === 'number' ? settings.humidityOffset : 0;
+    return Math.min(100, Math.max(0, Math.round((humidity * scale + offset) * 10) / 10));
+  }
+
+  /**
+   * Check the temperature of a sensor zone against its high and low thresholds.
+   *
+   * @param sensor RuntimeCacheInterface  The temperature or humidity sensor zone.
+   */
+  updateTemperatureAlerts(sensor: RuntimeCacheInterface) {
+    const settings = sensor.environmentalSensorSettings;
+    if (!settings || typeof sensor.temp !== 'number') {
+      return;
+    }
+    if (typeof settings.highThreshold === 'number') {
+      this.setTemperatureAlert(sensor, 'high', sensor.temp >= this.toCelsius(sensor, settings.highThreshold));
+    }
+    if (typeof settings.lowThreshold === 'number') {
+      this.setTemperatureAlert(sensor, 'low', sensor.temp <= this.toCelsius(sensor, settings.lowThreshold));
+    }
+  }
+
+  /**
+   * Raise or clear a temperature alert of a sensor zone.
+   * A raised alert is processed like a triggered binary sensor (e.g., to trigger the alarm in its triggerable modes).
+   *
+   * @param sensor RuntimeCacheInterface  The temperature or humidity sensor zone.
+   * @param alert string  Which threshold the alert is for ('high' or 'low').
+   * @param active boolean  Whether the temperature is past the threshold.
+   */
+  setTemperatureAlert(sensor: RuntimeCacheInterface, alert: 'high' | 'low', active: boolean) {
+    const alertProperty = alert === 'high' ? 'highAlert' : 'lowAlert';
+    if ((sensor[alertProperty] === true) === active) {
+      return;
+    }
+    const existingAccessory = this.accessories.find((accessory) => accessory.UUID === sensor.UUID);
+
+    sensor[alertProperty] = active;
+    if (existingAccessory) {
+      existingAccessory.context.device[alertProperty] = active;
+    }
+    this.konnectedPlatformAccessories[sensor.UUID]?.[alert + 'TemperatureAlertService']?.updateCharacteristic(
+      this.Characteristic.ContactSensorState,
+      active
+        ? this.Characteristic.ContactSensorState.CONTACT_NOT_DETECTED
+        : this.Characteristic.ContactSensorState.CONTACT_DETECTED
+    );
+
+    if (active) {
+      this.log.warn(
+        `[${sensor.displayName}] (${sensor.serialNumber}) as '${sensor.type}' temperature of ${sensor.temp}°C is past its ${alert} threshold.`
+      );
+      this.processSensorAccessoryActions(sensor, 0, 1);
+    } else {
+      this.log.info(
+        `[${sensor.displayName}] (${sensor.serialNumber}) as '${sensor.type}' temperature of ${sensor.temp}°C is back within its ${alert} threshold.`
+      );
+    }
+    this.emitEvent('temperatureAlert', { zone: this.getZoneStatus(sensor), alert: alert, active: active });
+  }
+
+  /**
+   * Track the state changes of a binary sensor zone with chatter detection.
+   * A zone that changes state more than its chatter limit within its chatter window is flagged with a fault
+   * and its actions are suppressed, until it has not changed state for a whole chatter window.
+   * Reports of the same state as the previous report (e.g., periodic refreshes) are not state changes.
+   *
+   * @param sensor RuntimeCacheInterface  The binary sensor zone that reported its state.
+   * @param reportedState number  The reported state of the zone (inverted if the zone is inverted).
+   */
+  detectSensorChatter(sensor: RuntimeCacheInterface, reportedState: number) {
+    if (!sensor.chatterLimit) {
+      return;
+    }
+    const chatterWindow = sensor.chatterWindow ? sensor.chatterWindow * 1000 : 10000;
+    const now = Date.now();
+
+    if (typeof this.sensorChatter[sensor.UUID] === 'undefined') {
+      this.sensorChatter[sensor.UUID] = { changes: [], chattering: false, lastState: sensor.state };
+    }
+    const sensorChatter = this.sensorChatter[sensor.UUID];
+
+    const previousState = sensorChatter.lastState;
+    sensorChatter.lastState = reportedState;
+    if (Number(previousState) === Number(reportedState)) {
+      return;
+    }
+
+    sensorChatter.changes = sensorChatter.changes.filter((changedAt) => now - changedAt < chatterWindow);
+    sensorChatter.changes.push(now);
+
+    if (!sensorChatter.chattering && sensorChatter.changes.length > sensor.chatterLimit) {
+      sensorChatter.chattering = true;
+      this.log.warn(
+        `[${sensor.displayName}] (${sensor.serialNumber}) as '${sensor.type}' changed state ${sensorChatter.changes.length} times in ${chatterWindow / 1000} seconds, it will not trigger the alarm or the beeper until it settles.`
+      );
+      this.setAccessoryFault(sensor.UUID, 'chatter', true);
+      this.emitEvent('chatter', { zone: this.getZoneStatus(sensor), chattering: true });
+    }
+
+    // the zone settles when it hasn't changed state for a whole chatter window
+    clearTimeout(sensorChatter.settleTimerHandle);
+    if (sensorChatter.chattering) {
+      sensorChatter.settleTimerHandle = setTimeout(() => {
+        sensorChatter.chattering = false;
+        sensorChatter.changes = [];
+        this.log.info(`[${sensor.displayName}] (${sensor.serialNumber}) as '${sensor.type}' has settled.`);
+        this.setAccessoryFault(sensor.UUID, 'chatter', false);
+        this.emitEvent('chatter', { zone: this.getZoneStatus(sensor), chattering: false });
+      }, chatterWindow);
+    }
+  }
+
   /**
    * Determine if the passed in sensor accessory should do something.
    * E.g., trigger the alarm, produce an audible beep, etc.
@@ -964,39 +2686,78 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
    * @param resultStateValue number  The state of the accessory as updated.
    */
   processSensorAccessoryActions(accessory: RuntimeCacheInterface, defaultStateValue: number, resultStateValue: number) {
+    // a chattering zone can't be trusted to trigger the alarm or the beeper
+    if (this.sensorChatter[accessory.UUID]?.chattering === true) {
+      this.log.debug(
+        `[${accessory.displayName}] (${accessory.serialNumber}) as '${accessory.type}' is chattering, its actions are suppressed`
+      );
+      return;
+    }
+
     // if the default state of the accessory is not the same as the updated state, we should process it
     if (defaultStateValue !== resultStateValue) {
       this.log.debug(
         `[${accessory.displayName}] (${accessory.serialNumber}) as '${accessory.type}' changed from its default state of ${defaultStateValue} to ${resultStateValue}`
       );
 
+      // 24-hour zones trigger the alarm right away in every state, including disarmed
+      const alarmClass = TYPES_TO_ALARM_CLASSES[accessory.type];
+      if (alarmClass && accessory.twentyFourHour !== false && accessory.bypassed !== true) {
+        this.log.debug(
+          `[${accessory.displayName}] (${accessory.serialNumber}) as '${accessory.type}' is a 24-hour zone, triggering a '${alarmClass}' alarm`
+        );
+        this.controlSecuritySystem(4, alarmClass);
+        return;
+      }
+
       const securitySystemAccessory = this.accessories.find((accessory) => accessory.UUID === this.securitySystemUUID);
+      // instant zones, and delayed zones in modes without an entry delay, trigger the alarm right away
+      const entryDelay =
+        accessory.delayType === 'instant' ? 0 : this.getEntryDelay(Number(securitySystemAccessory?.context.device.state));
 
-      // check what modes the accessory has set to trigger the alarm
+      // check what modes the accessory has set to trigger the alarm (bypassed zones don't trigger it)
       if (
+        accessory.bypassed !== true &&
         accessory.triggerableModes?.includes(String(securitySystemAccessory?.context.device.state) as never) &&
-        typeof this.entryTriggerDelayTimerHandle === 'undefined'
+        (typeof this.entryTriggerDelayTimerHandle === 'undefined' || entryDelay === 0)
       ) {
         // accessory should trigger security system
+        this.countSwingerTrip(accessory);
 
-        // find beepers and actuate audible delay sound
-        this.accessoriesRuntimeCache.forEach((beeperAccessory) => {
-          if (beeperAccessory.type === 'beeper') {
-            if (this.config.advanced?.entryDelaySettings?.pulseDuration) {
-              this.actuateAccessory(beeperAccessory.UUID, true, this.config.advanced?.entryDelaySettings);
-            } else {
-              this.actuateAccessory(beeperAccessory.UUID, true, {});
-            }
-          }
-        });
-
-        // wait the entry delay time and trigger the security system
-        this.entryTriggerDelayTimerHandle = setTimeout(() => {
+        if (entryDelay === 0) {
+          // this also cuts short an entry delay that another zone started
+          clearTimeout(this.entryTriggerDelayTimerHandle);
+          delete this.entryTriggerDelayTimerHandle;
           this.log.debug(
-            `Set [${securitySystemAccessory?.displayName}] (${securitySystemAccessory?.context.device.serialNumber}) as '${securitySystemAccessory?.context.device.type}' characteristic: 4 (triggered!)`
+            `Set [${securitySystemAccessory?.displayName}] (${securitySystemAccessory?.context.device.serialNumber}) as '${securitySystemAccessory?.context.device.type}' characteristic: 4 (triggered instantly by [${accessory.displayName}] (${accessory.serialNumber}))`
           );
           this.controlSecuritySystem(4);
-        }, this.entryTriggerDelay);
+        } else {
+          // find beepers and actuate audible delay sound
+          this.accessoriesRuntimeCache.forEach((beeperAccessory) => {
+            if (beeperAccessory.type === 'beeper') {
+              if (this.config.advanced?.entryDelaySettings?.pulseDuration) {
+                this.actuateAccessory(beeperAccessory.UUID, true, this.config.advanced?.entryDelaySettings);
+              } else {
+                this.actuateAccessory(beeperAccessory.UUID, true, {});
+              }
+            }
+          });
+
+          this.emitEvent('entryDelay', {
+            zone: this.getZoneStatus(accessory),
+            delay: entryDelay,
+          });
+
+          // wait the entry delay time and trigger the security system
+          this.entryTriggerDelayTimerHandle = setTimeout(() => {
+            delete this.entryTriggerDelayTimerHandle;
+            this.log.debug(
+              `Set [${securitySystemAccessory?.displayName}] (${securitySystemAccessory?.context.device.serialNumber}) as '${securitySystemAccessory?.context.device.type}' characteristic: 4 (triggered!)`
+            );
+            this.controlSecuritySystem(4);
+          }, entryDelay);
+        }
       } else {
         // accessory is just sensing change
 
@@ -1012,6 +2773,245 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
     }
   }
 
+  /**
+   * Report a tamper zone whose loop opened or closed, and trigger the alarm when its loop opens
+   * if the tamper zone is set to trigger the alarm and the security system is armed (in any mode).
+   *
+   * @param tamper RuntimeCacheInterface  The tamper zone, with its new state.
+   * @param previousStateValue boolean | number  The state of the tamper zone before it changed.
+   */
+  processTamper(tamper: RuntimeCacheInterface, previousStateValue?: boolean | number) {
+    this.updateTamperStates();
+
+    if (tamper.state === previousStateValue) {
+      return;
+    }
+
+    const tampered = tamper.state === 1;
+    const linkedZones = this.getTamperLinkedZones(tamper).map((linkedZone) => linkedZone.serialNumber);
+
+    if (tampered) {
+      this.log.warn(
+        `[${tamper.displayName}] (${tamper.serialNumber}) as '${tamper.type}' loop opened, tampered zones: ${linkedZones.join(', ')}`
+      );
+    } else {
+      this.log.info(`[${tamper.displayName}] (${tamper.serialNumber}) as '${tamper.type}' loop closed.`);
+    }
+    this.emitEvent('tamper', { zone: this.getZoneStatus(tamper), tampered: tampered, linkedZones: linkedZones });
+
+    const currentState = Number(this.getSecuritySystemStatus().currentState);
+    if (tampered && tamper.tamperSettings?.triggerAlarm === true && currentState < 3) {
+      this.log.debug(
+        `[${tamper.displayName}] (${tamper.serialNumber}) as '${tamper.type}' triggers the security system armed in mode ${ALARM_VALUES_TO_NAMES(currentState)}`
+      );
+      this.controlSecuritySystem(4);
+    }
+  }
+
+  /**
+   * Get the zones a tamper zone is linked to: its linked zones, or every zone of its panel if none are linked.
+   *
+   * @param tamper RuntimeCacheInterface  The tamper zone.
+   */
+  getTamperLinkedZones(tamper: RuntimeCacheInterface) {
+    const panelShortUUID = tamper.serialNumber.split('-')[0];
+    const linkedZones = (tamper.tamperSettings?.linkedZones || []).map((linkedZone) => String(linkedZone));
+
+    return this.accessoriesRuntimeCache.filter(
+      (runtimeCacheAccessory) =>
+        runtimeCacheAccessory.serialNumber.split('-')[0] === panelShortUUID &&
+        (linkedZones.length === 0 || linkedZones.includes(runtimeCacheAccessory.serialNumber.split('-')[1]))
+    );
+  }
+
+  /**
+   * Set the tampered status of every zone from the tamper zones with open loops (a tamper zone is tampered itself),
+   * and of the security system if any tamper zone has an open loop.
+   */
+  updateTamperStates() {
+    const openTampers = this.accessoriesRuntimeCache.filter(
+      (runtimeCacheAccessory) => runtimeCacheAccessory.type === 'tamper' && runtimeCacheAccessory.state === 1
+    );
+    const tamperedZones: string[] = [];
+    openTampers.forEach((tamper) => {
+      tamperedZones.push(tamper.UUID, ...this.getTamperLinkedZones(tamper).map((linkedZone) => linkedZone.UUID));
+    });
+
+    this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+      runtimeCacheAccessory.tampered = tamperedZones.includes(runtimeCacheAccessory.UUID);
+      this.setAccessoryTampered(runtimeCacheAccessory.UUID, runtimeCacheAccessory.tampered);
+    });
+
+    this.setAccessoryTampered(this.securitySystemUUID, openTampers.length > 0);
+  }
+
+  /**
+   * Hold and re-trigger the motion of a motion sensor zone with motion settings.
+   * Motion is detected right away, but it is only cleared once it has been detected for the hold time
+   * and no motion has been reported for the re-trigger window. The optional occupancy sensor stays occupied
+   * until motion has been cleared for the occupancy timeout.
+   *
+   * @param motion RuntimeCacheInterface  The motion sensor zone.
+   * @param defaultStateValue number  The original default state of the accessory.
+   * @param resultStateValue number  The state of the accessory as reported by the panel.
+   */
+  processMotion(motion: RuntimeCacheInterface, defaultStateValue: number, resultStateValue: number) {
+    const holdTime = motion.motionSettings?.holdTime ? motion.motionSettings.holdTime * 1000 : 0;
+    const retriggerWindow = motion.motionSettings?.retriggerWindow ? motion.motionSettings.retriggerWindow * 1000 : 0;
+
+    if (typeof this.motionTrackers[motion.UUID] === 'undefined') {
+      this.motionTrackers[motion.UUID] = { detectedAt: 0 };
+    }
+    const motionTracker = this.motionTrackers[motion.UUID];
+
+    clearTimeout(motionTracker.clearTimerHandle);
+
+    if (resultStateValue === 1) {
+      clearTimeout(motionTracker.occupancyTimerHandle);
+      if (motion.state !== resultStateValue) {
+        motionTracker.detectedAt = Date.now();
+        this.setMotionState(motion, defaultStateValue, resultStateValue);
+      }
+      if (motion.motionSettings?.occupancySensor && motion.occupied !== true) {
+        this.setOccupancyState(motion, true);
+      }
+    } else {
+      const clearDelay = Math.max(motionTracker.detectedAt + holdTime - Date.now(), retriggerWindow, 0);
+      motionTracker.clearTimerHandle = setTimeout(() => {
+        this.setMotionState(motion, defaultStateValue, resultStateValue);
+        if (motion.motionSettings?.occupancySensor) {
+          const occupancyTimeout = motion.motionSettings.occupancyTimeout ? motion.motionSettings.occupancyTimeout * 60000 : 300000;
+          clearTimeout(motionTracker.occupancyTimerHandle);
+          motionTracker.occupancyTimerHandle = setTimeout(() => {
+            this.setOccupancyState(motion, false);
+          }, occupancyTimeout);
+        }
+      }, clearDelay);
+    }
+  }
+
+  /**
+   * Change the state of a motion sensor zone with motion settings and process its actions.
+   *
+   * @param motion RuntimeCacheInterface  The motion sensor zone.
+   * @param defaultStateValue number  The original default state of the accessory.
+   * @param resultStateValue number  The state of the accessory as held.
+   */
+  setMotionState(motion: RuntimeCacheInterface, defaultStateValue: number, resultStateValue: number) {
+    const existingAccessory = this.accessories.find((accessory) => accessory.UUID === motion.UUID);
+
+    this.processSensorAccessoryActions(motion, defaultStateValue, resultStateValue);
+
+    const previousStateValue = motion.state;
+    motion.state = resultStateValue;
+    if (existingAccessory) {
+      existingAccessory.context.device.state = resultStateValue;
+    }
+    this.konnectedPlatformAccessories[motion.UUID]?.service.updateCharacteristic(
+      this.Characteristic.MotionDetected,
+      resultStateValue
+    );
+    this.recordZoneHistory(motion, previousStateValue);
+    this.log.debug(
+      `Set [${motion.displayName}] (${motion.serialNumber}) as '${motion.type}' characteristic value: ${resultStateValue}`
+    );
+    this.emitEvent('zoneState', { zone: this.getZoneStatus(motion) });
+  }
+
+  /**
+   * Change the state of the occupancy sensor of a motion sensor zone.
+   *
+   * @param motion RuntimeCacheInterface  The motion sensor zone.
+   * @param occupied boolean  Whether the room is occupied.
+   */
+  setOccupancyState(motion: RuntimeCacheInterface, occupied: boolean) {
+    const existingAccessory = this.accessories.find((accessory) => accessory.UUID === motion.UUID);
+
+    motion.occupied = occupied;
+    if (existingAccessory) {
+      existingAccessory.context.device.occupied = occupied;
+    }
+    this.konnectedPlatformAccessories[motion.UUID]?.occupancySensorService?.updateCharacteristic(
+      this.Characteristic.OccupancyDetected,
+      occupied ? 1 : 0
+    );
+    this.log.debug(
+      `Set [${motion.displayName}] (${motion.serialNumber}) as '${motion.type}-occupancy' characteristic value: ${occupied ? 1 : 0}`
+    );
+    this.emitEvent('occupancy', { zone: this.getZoneStatus(motion), occupied: occupied });
+  }
+
+  /**
+   * Turn the state changes of a button zone into single, double and long presses.
+   * A press is a single press when no other press follows within the double press window,
+   * and a long press when the button is held for the long press time. Doorbells ring as soon as they are pressed.
+   *
+   * @param button RuntimeCacheInterface  The button or doorbell zone.
+   * @param pressed boolean  Whether the button was pressed (true) or released (false).
+   */
+  processButtonPress(button: RuntimeCacheInterface, pressed: boolean) {
+    const doublePressWindow = button.buttonSettings?.doublePressWindow ? button.buttonSettings.doublePressWindow : 500;
+    const longPressTime = button.buttonSettings?.longPressTime ? button.buttonSettings.longPressTime : 1000;
+
+    if (button.type === 'doorbell') {
+      if (pressed) {
+        this.triggerButtonEvent(button, this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+      }
+      return;
+    }
+
+    if (typeof this.buttonPresses[button.UUID] === 'undefined') {
+      this.buttonPresses[button.UUID] = { count: 0, longPressed: false };
+    }
+    const buttonPress = this.buttonPresses[button.UUID];
+
+    if (pressed) {
+      clearTimeout(buttonPress.pressTimerHandle);
+      clearTimeout(buttonPress.longPressTimerHandle);
+      buttonPress.longPressTimerHandle = setTimeout(() => {
+        buttonPress.count = 0;
+        buttonPress.longPressed = true;
+        this.triggerButtonEvent(button, this.Characteristic.ProgrammableSwitchEvent.LONG_PRESS);
+      }, longPressTime);
+    } else {
+      clearTimeout(buttonPress.longPressTimerHandle);
+      // the long press was already sent when the button was held
+      if (buttonPress.longPressed) {
+        buttonPress.longPressed = false;
+        return;
+      }
+      buttonPress.count++;
+      if (buttonPress.count >= 2) {
+        buttonPress.count = 0;
+        this.triggerButtonEvent(button, this.Characteristic.ProgrammableSwitchEvent.DOUBLE_PRESS);
+      } else {
+        buttonPress.pressTimerHandle = setTimeout(() => {
+          buttonPress.count = 0;
+          this.triggerButtonEvent(button, this.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS);
+        }, doublePressWindow);
+      }
+    }
+  }
+
+  /**
+   * Send a press of a button zone to HomeKit.
+   *
+   * @param button RuntimeCacheInterface  The button or doorbell zone.
+   * @param switchEvent number  The ProgrammableSwitchEvent value (0 = single, 1 = double, 2 = long press).
+   */
+  triggerButtonEvent(button: RuntimeCacheInterface, switchEvent: number) {
+    const press = ['single', 'double', 'long'][switchEvent];
+
+    this.log.debug(
+      `[${button.displayName}] (${button.serialNumber}) as '${button.type}' ${press} press, characteristic value: ${switchEvent}`
+    );
+    this.konnectedPlatformAccessories[button.UUID]?.service.updateCharacteristic(
+      this.Characteristic.ProgrammableSwitchEvent,
+      switchEvent
+    );
+    this.emitEvent('buttonPress', { zone: this.getZoneStatus(button), press: press });
+  }
+
   /**
    * Actuate a zone on a panel based on the switch's state.
    *
@@ -1023,8 +3023,10 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
     // retrieve the matching accessory
     const existingAccessory = this.accessories.find((accessory) => accessory.UUID === zoneUUID);
 
-    // set the representative state in HomeKit
-    this.konnectedPlatformAccessories[zoneUUID].service.updateCharacteristic(this.Characteristic.On, value);
+    // set the representative state in HomeKit (garage doors and valves have their own characteristics)
+    if (TYPES_TO_ACCESSORIES[existingAccessory?.context.device.type]?.[0] === 'Switch') {
+      this.konnectedPlatformAccessories[zoneUUID].service.updateCharacteristic(this.Characteristic.On, value);
+    }
 
     if (existingAccessory) {
       // loop through the plugin configuration to get the correct panel for the zone
@@ -1116,6 +3118,14 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify(actuatorPayload),
                   });
+                  if (response.status !== 200) {
+                    this.log.error(
+                      `Panel responded with status ${response.status} when actuating [${existingAccessory.displayName}] (${existingAccessory.context.device.serialNumber})`
+                    );
+                    this.incrementMetric('konnected_actuator_failures_total', {
+                      zone: existingAccessory.context.device.serialNumber,
+                    });
+                  }
                   if (
                     response.status === 200 &&
                     ['beeper', 'siren', 'strobe', 'switch'].includes(existingAccessory.context.device.type)
@@ -1144,6 +3154,9 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
                   if (error instanceof Error) {
                     this.log.error(error['message']);
                   }
+                  this.incrementMetric('konnected_actuator_failures_total', {
+                    zone: existingAccessory.context.device.serialNumber,
+                  });
                 }
               };
               actuatePanelZone(panelEndpoint);
@@ -1154,12 +3167,487 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
     }
   }
 
+  /**
+   * Open or close a valve. An opened valve is closed again when its set duration has passed.
+   *
+   * @param zoneUUID string  HAP UUID for the valve zone accessory.
+   * @param active boolean  Whether to open (true) or close (false) the valve.
+   */
+  controlValve(zoneUUID: string, active: boolean) {
+    const valve = this.accessoriesRuntimeCache.find((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === zoneUUID);
+    if (!valve) {
+      return;
+    }
+    const existingAccessory = this.accessories.find((accessory) => accessory.UUID === zoneUUID);
+
+    clearTimeout(this.valveTimerHandles[zoneUUID]);
+    delete this.valveTimerHandles[zoneUUID];
+
+    const duration = this.getValveDuration(valve);
+
+    valve.state = active ? 1 : 0;
+    // a duration of zero keeps the valve open until it is closed
+    valve.endTime = active && duration > 0 ? Date.now() + duration * 1000 : undefined;
+    if (existingAccessory) {
+      existingAccessory.context.device.state = valve.state;
+      existingAccessory.context.device.endTime = valve.endTime;
+    }
+
+    // the switch settings of the zone don't apply, a valve stays on until it is closed
+    this.actuateAccessory(zoneUUID, active, {});
+
+    if (valve.endTime) {
+      this.valveTimerHandles[zoneUUID] = setTimeout(() => {
+        this.log.info(`[${valve.displayName}] (${valve.serialNumber}) as '${valve.type}' ran for ${duration} seconds, turning it off.`);
+        this.controlValve(zoneUUID, false);
+      }, duration * 1000);
+    }
+
+    this.konnectedPlatformAccessories[zoneUUID]?.service
+      .updateCharacteristic(this.Characteristic.Active, active ? 1 : 0)
+      .updateCharacteristic(this.Characteristic.InUse, active ? 1 : 0)
+      .updateCharacteristic(this.Characteristic.RemainingDuration, this.getValveRemainingDuration(valve));
+
+    this.log.debug(
+      `Set [${valve.displayName}] (${valve.serialNumber}) as '${valve.type}' characteristic value: ${active} (remaining: ${this.getValveRemainingDuration(valve)} seconds)`
+    );
+
+    this.emitEvent('valve', {
+      zone: this.getZoneStatus(valve),
+      remainingDuration: this.getValveRemainingDuration(valve),
+    });
+  }
+
+  /**
+   * Get how long a valve runs for when it is opened (in seconds).
+   *
+   * @param valve RuntimeCacheInterface  The valve zone.
+   */
+  getValveDuration(valve: RuntimeCacheInterface) {
+    if (typeof valve.duration === 'number') {
+      return valve.duration;
+    }
+    return valve.valveSettings?.defaultDuration !== null && typeof valve.valveSettings?.defaultDuration !== 'undefined'
+      ? valve.valveSettings.defaultDuration
+      : 300;
+  }
+
+  /**
+   * Get how long a running valve has left before it is closed (in seconds).
+   *
+   * @param valve RuntimeCacheInterface  The valve zone.
+   */
+  getValveRemainingDuration(valve: RuntimeCacheInterface) {
+    return valve.state === 1 && valve.endTime ? Math.max(0, Math.round((valve.endTime - Date.now()) / 1000)) : 0;
+  }
+
+  /**
+   * Open or close a garage door by pulsing its opener zone, then wait the travel time for the door to get there.
+   *
+   * @param zoneUUID string  HAP UUID for the garage door opener zone accessory.
+   * @param targetState number  The TargetDoorState to move the door to (0 = open, 1 = closed).
+   */
+  controlGarageDoor(zoneUUID: string, targetState: number) {
+    const garageDoor = this.accessoriesRuntimeCache.find((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === zoneUUID);
+    if (!garageDoor) {
+      return;
+    }
+
+    const openingState =
+      targetState === this.Characteristic.TargetDoorState.OPEN
+        ? this.Characteristic.CurrentDoorState.OPENING
+        : this.Characteristic.CurrentDoorState.CLOSING;
+
+    // the door is already at or moving to the target (open and closed share their values in both characteristics),
+    // another pulse would stop or reverse the door
+    if (garageDoor.state === targetState || garageDoor.state === openingState) {
+      this.setGarageDoorState(garageDoor, garageDoor.state, targetState, false);
+      return;
+    }
+
+    this.log.info(
+      `${targetState === this.Characteristic.TargetDoorState.OPEN ? 'Opening' : 'Closing'} [${garageDoor.displayName}] (${garageDoor.serialNumber}) as '${garageDoor.type}'`
+    );
+
+    this.actuateAccessory(zoneUUID, true, {
+      pulseDuration: garageDoor.garageDoorSettings?.pulseDuration ? garageDoor.garageDoorSettings.pulseDuration : 500,
+    });
+    this.setGarageDoorState(garageDoor, openingState, targetState, false);
+    this.startGarageDoorTravel(garageDoor);
+  }
+
+  /**
+   * Start (or restart) the travel timer of a garage door that is opening or closing.
+   *
+   * @param garageDoor RuntimeCacheInterface  The garage door opener zone.
+   */
+  startGarageDoorTravel(garageDoor: RuntimeCacheInterface) {
+    const travelTime = garageDoor.garageDoorSettings?.travelTime ? garageDoor.garageDoorSettings.travelTime * 1000 : 15000;
+
+    clearTimeout(this.garageDoorTimerHandles[garageDoor.UUID]);
+    this.garageDoorTimerHandles[garageDoor.UUID] = setTimeout(() => {
+      delete this.garageDoorTimerHandles[garageDoor.UUID];
+      this.completeGarageDoorTravel(garageDoor);
+    }, travelTime);
+  }
+
+  /**
+   * Settle a garage door once its travel time has passed.
+   * Without a contact zone the door is assumed to have reached its target,
+   * otherwise a door that is still where it started is flagged as obstructed.
+   *
+   * @param garageDoor RuntimeCacheInterface  The garage door opener zone.
+   */
+  completeGarageDoorTravel(garageDoor: RuntimeCacheInterface) {
+    const targetState = Number(garageDoor.targetState);
+    const contactState = this.getGarageDoorContactState(garageDoor);
+
+    if (typeof contactState === 'undefined' || (contactState === 0) === (targetState === this.Characteristic.TargetDoorState.CLOSED)) {
+      this.setGarageDoorState(garageDoor, targetState, targetState, false);
+    } else {
+      const position = contactState === 0 ? this.Characteristic.CurrentDoorState.CLOSED : this.Characteristic.CurrentDoorState.OPEN;
+      this.log.warn(
+        `[${garageDoor.displayName}] (${garageDoor.serialNumber}) as '${garageDoor.type}' did not ${targetState === this.Characteristic.TargetDoorState.OPEN ? 'open' : 'close'} within its travel time, it may be obstructed.`
+      );
+      this.setGarageDoorState(garageDoor, position, position, true);
+    }
+  }
+
+  /**
+   * Update the garage doors that use a contact zone as their position sensor when the contact zone changes.
+   * A closed contact means the door is closed, an opened contact on a closed door means it was opened outside of HomeKit.
+   *
+   * @param contactAccessory RuntimeCacheInterface  The contact zone that changed.
+   */
+  updateGarageDoorPosition(contactAccessory: RuntimeCacheInterface) {
+    this.accessoriesRuntimeCache
+      .filter(
+        (runtimeCacheAccessory) =>
+          runtimeCacheAccessory.type === 'garagedoor' &&
+          runtimeCacheAccessory.garageDoorSettings?.contactZone &&
+          runtimeCacheAccessory.serialNumber.split('-')[0] + '-' + runtimeCacheAccessory.garageDoorSettings.contactZone ===
+            contactAccessory.serialNumber
+      )
+      .forEach((garageDoor) => {
+        if (contactAccessory.state === 0) {
+          clearTimeout(this.garageDoorTimerHandles[garageDoor.UUID]);
+          delete this.garageDoorTimerHandles[garageDoor.UUID];
+          this.setGarageDoorState(
+            garageDoor,
+            this.Characteristic.CurrentDoorState.CLOSED,
+            this.Characteristic.TargetDoorState.CLOSED,
+            false
+          );
+        } else if (garageDoor.state === this.Characteristic.CurrentDoorState.CLOSED) {
+          // e.g., opened with a wall button or remote
+          this.setGarageDoorState(
+            garageDoor,
+            this.Characteristic.CurrentDoorState.OPENING,
+            this.Characteristic.TargetDoorState.OPEN,
+            false
+          );
+          this.startGarageDoorTravel(garageDoor);
+        }
+      });
+  }
+
+  /**
+   * Get the state of the contact zone that is the position sensor of a garage door (0 = closed, 1 = open).
+   *
+   * @param garageDoor RuntimeCacheInterface  The garage door opener zone.
+   */
+  getGarageDoorContactState(garageDoor: RuntimeCacheInterface) {
+    if (!garageDoor.garageDoorSettings?.contactZone) {
+      return undefined;
+    }
+    const contactSerialNumber = garageDoor.serialNumber.split('-')[0] + '-' + garageDoor.garageDoorSettings.contactZone;
+    const contactAccessory = this.accessoriesRuntimeCache.find(
+      (runtimeCacheAccessory) => runtimeCacheAccessory.serialNumber === contactSerialNumber
+    );
+    return typeof contactAccessory?.state !== 'undefined' ? Number(contactAccessory.state) : undefined;
+  }
+
+  /**
+   * Store the states of a garage door and update them in HomeKit.
+   *
+   * @param garageDoor RuntimeCacheInterface  The garage door opener zone.
+   * @param currentState number  The CurrentDoorState of the door.
+   * @param targetState number  The TargetDoorState of the door.
+   * @param obstructed boolean  Whether the door did not reach its target.
+   */
+  setGarageDoorState(garageDoor: RuntimeCacheInterface, currentState: number, targetState: number, obstructed: boolean) {
+    const existingAccessory = this.accessories.find((accessory) => accessory.UUID === garageDoor.UUID);
+
+    garageDoor.state = currentState;
+    garageDoor.targetState = targetState;
+    garageDoor.obstructed = obstructed;
+    if (existingAccessory) {
+      existingAccessory.context.device.state = currentState;
+      existingAccessory.context.device.targetState = targetState;
+      existingAccessory.context.device.obstructed = obstructed;
+    }
+
+    this.konnectedPlatformAccessories[garageDoor.UUID]?.service
+      .updateCharacteristic(this.Characteristic.TargetDoorState, targetState)
+      .updateCharacteristic(this.Characteristic.CurrentDoorState, currentState)
+      .updateCharacteristic(this.Characteristic.ObstructionDetected, obstructed);
+
+    this.log.debug(
+      `Set [${garageDoor.displayName}] (${garageDoor.serialNumber}) as '${garageDoor.type}' characteristic value: ${currentState} (target: ${targetState}, obstructed: ${obstructed})`
+    );
+
+    this.emitEvent('garageDoor', {
+      zone: this.getZoneStatus(garageDoor),
+      targetState: targetState,
+      obstructed: obstructed,
+    });
+  }
+
+  /**
+   * Get the entry delay of an arming mode: the entry delay set for the mode, otherwise the entry delay of all modes.
+   *
+   * @param mode number  The arming mode (0: home/stay, 1: away, 2: night).
+   */
+  getEntryDelay(mode: number) {
+    const modeDelay = this.config.advanced?.entryDelaySettings?.[['stayDelay', 'awayDelay', 'nightDelay'][mode]];
+    return modeDelay !== null && typeof modeDelay !== 'undefined' ? Math.round(modeDelay) * 1000 : this.entryTriggerDelay;
+  }
+
+  /**
+   * Get the exit delay of an arming mode: the exit delay set for the mode, otherwise the exit delay of all modes
+   * for modes with an audible beeper countdown (other modes arm immediately).
+   *
+   * @param mode number  The arming mode (0: home/stay, 1: away, 2: night).
+   */
+  getExitDelay(mode: number) {
+    const modeDelay = this.config.advanced?.exitDelaySettings?.[['stayDelay', 'awayDelay', 'nightDelay'][mode]];
+    if (modeDelay !== null && typeof modeDelay !== 'undefined') {
+      return Math.round(modeDelay) * 1000;
+    }
+    return this.isExitDelayAudible(mode) ? this.exitTriggerDelay : 0;
+  }
+
+  /**
+   * Check if an arming mode has an audible beeper countdown during its exit delay.
+   * If the user has not configured which modes have audible beeper countdowns, only away mode has one.
+   *
+   * @param mode number  The arming mode (0: home/stay, 1: away, 2: night).
+   */
+  isExitDelayAudible(mode: number) {
+    return typeof this.config.advanced?.exitDelaySettings?.audibleBeeperModes !== 'undefined'
+      ? this.config.advanced.exitDelaySettings.audibleBeeperModes.includes(String(mode))
+      : mode === 1;
+  }
+
+  /**
+   * Count a trip of the alarm by a zone, and bypass the zone once its trips reach the swinger limit,
+   * so that a zone which keeps re-triggering the alarm doesn't sound it again until the security system is disarmed.
+   *
+   * @param zone RuntimeCacheInterface  The zone that trips the alarm.
+   */
+  countSwingerTrip(zone: RuntimeCacheInterface) {
+    const swingerLimit = this.config.advanced?.alarmSettings?.swingerLimit;
+    if (!swingerLimit) {
+      return;
+    }
+
+    this.swingerTrips[zone.UUID] = (this.swingerTrips[zone.UUID] || 0) + 1;
+    if (this.swingerTrips[zone.UUID] >= swingerLimit) {
+      this.log.warn(
+        `[${zone.displayName}] (${zone.serialNumber}) as '${zone.type}' tripped the alarm ${this.swingerTrips[zone.UUID]} times and reached the swinger limit.`
+      );
+      this.setZoneBypass(zone.UUID, true);
+    }
+  }
+
+  /**
+   * Silence the sirens of a triggered alarm once the siren timeout has passed (strobes stay on),
+   * then re-arm the security system to the mode it was armed in before the alarm, if configured.
+   */
+  timeoutSirens() {
+    delete this.sirenTimeoutTimerHandle;
+    clearInterval(this.sirenPatternTimerHandle as NodeJS.Timeout);
+    delete this.sirenPatternTimerHandle;
+
+    this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+      if ('siren' === runtimeCacheAccessory.type) {
+        this.actuateAccessory(runtimeCacheAccessory.UUID, false, null);
+      }
+    });
+    this.log.warn(`Security system sirens timed out after ${this.sirenTimeout / 60000} minutes.`);
+    this.emitEvent('sirenTimeout', { alarmClass: this.alarmClass, timeout: this.sirenTimeout });
+
+    // only burglary alarms are re-armed, not life-safety alarms (fire, carbon monoxide, leak) or alarms triggered while disarmed
+    if (
+      this.config.advanced?.alarmSettings?.rearm === true &&
+      this.alarmClass === 'burglary' &&
+      typeof this.rearmState !== 'undefined'
+    ) {
+      const rearmState = this.rearmState;
+      this.log.info(`Security system re-arming in ${ALARM_VALUES_TO_NAMES(rearmState)} mode after the alarm.`);
+
+      // the alarm is over, so later alarms are not taken for it, and the zone that tripped it is usually still open,
+      // so arming readiness is not checked
+      this.clearAlarmClass();
+      if (this.controlSecuritySystem(rearmState, 'burglary', false)) {
+        this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+          if ('strobe' === runtimeCacheAccessory.type) {
+            this.actuateAccessory(runtimeCacheAccessory.UUID, false, null);
+          }
+        });
+      } else {
+        this.log.error(`Security system could not re-arm in ${ALARM_VALUES_TO_NAMES(rearmState)} mode after the alarm.`);
+      }
+    }
+  }
+
+  /**
+   * Clear the class of a triggered alarm, stop repeating its siren pattern and reset the alarm type of the security system.
+   */
+  clearAlarmClass() {
+    delete this.alarmClass;
+    clearInterval(this.sirenPatternTimerHandle as NodeJS.Timeout);
+    delete this.sirenPatternTimerHandle;
+    this.konnectedPlatformAccessories[this.securitySystemUUID].service.updateCharacteristic(
+      this.Characteristic.SecuritySystemAlarmType,
+      0
+    );
+  }
+
+  /**
+   * Bypass a zone, or end its bypass, and reflect it on the bypass switch of the zone.
+   * A bypassed zone still reports its state but doesn't trigger the alarm.
+   *
+   * @param zoneUUID string  The UUID of the zone.
+   * @param bypassed boolean  Whether the zone is bypassed.
+   */
+  setZoneBypass(zoneUUID: string, bypassed: boolean) {
+    const zone = this.accessoriesRuntimeCache.find((runtimeCacheAccessory) => runtimeCacheAccessory.UUID === zoneUUID);
+    if (!zone || Boolean(zone.bypassed) === bypassed) {
+      return;
+    }
+
+    if (bypassed) {
+      zone.bypassed = true;
+    } else {
+      delete zone.bypassed;
+    }
+    this.konnectedPlatformAccessories[zoneUUID]?.bypassSwitchService?.updateCharacteristic(this.Characteristic.On, bypassed);
+
+    this.log.info(`[${zone.displayName}] (${zone.serialNumber}) as '${zone.type}' ${bypassed ? 'is bypassed' : 'is no longer bypassed'}.`);
+    this.emitEvent('bypass', { zone: this.getZoneStatus(zone) });
+  }
+
+  /**
+   * Check the triggerable zones of an arming mode for open zones before arming, and deal with them
+   * as configured: refuse to arm, bypass them until the security system is disarmed, or arm anyway (default).
+   * Returns false if the security system should not be armed.
+   *
+   * @param mode number  The arming mode (0: home/stay, 1: away, 2: night).
+   */
+  checkArmingReadiness(mode: number) {
+    const openZoneAction: 'force' | 'refuse' | 'bypass' = this.config.advanced?.armingReadinessSettings?.openZoneAction
+      ? this.config.advanced.armingReadinessSettings.openZoneAction
+      : 'force';
+
+    // open binary sensors that would trigger the alarm in this mode (24-hour zones trigger in every mode regardless)
+    const openZones = this.accessoriesRuntimeCache.filter(
+      (runtimeCacheAccessory) =>
+        ZONE_TYPES.sensors.includes(runtimeCacheAccessory.type) &&
+        !['button', 'doorbell', 'tamper'].includes(runtimeCacheAccessory.type) &&
+        !(runtimeCacheAccessory.type in TYPES_TO_ALARM_CLASSES && runtimeCacheAccessory.twentyFourHour !== false) &&
+        runtimeCacheAccessory.triggerableModes?.includes(String(mode) as never) &&
+        runtimeCacheAccessory.bypassed !== true &&
+        Boolean(runtimeCacheAccessory.state)
+    );
+    const openZoneNames = openZones.map(
+      (runtimeCacheAccessory) => `[${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber})`
+    );
+
+    let result: 'ready' | 'refused' | 'bypassed' | 'forced' = 'ready';
+    if (openZones.length === 0) {
+      this.log.debug(`Security system is ready to arm in ${ALARM_VALUES_TO_NAMES(mode)} mode.`);
+    } else if (openZoneAction === 'refuse') {
+      result = 'refused';
+      this.log.warn(`Security system refused to arm in ${ALARM_VALUES_TO_NAMES(mode)} mode, open zones: ${openZoneNames.join(', ')}`);
+    } else if (openZoneAction === 'bypass') {
+      result = 'bypassed';
+      openZones.forEach((runtimeCacheAccessory) => {
+        this.setZoneBypass(runtimeCacheAccessory.UUID, true);
+      });
+      this.log.warn(
+        `Security system arming in ${ALARM_VALUES_TO_NAMES(mode)} mode, bypassing open zones until disarmed: ${openZoneNames.join(', ')}`
+      );
+    } else {
+      result = 'forced';
+      this.log.warn(`Security system arming in ${ALARM_VALUES_TO_NAMES(mode)} mode with open zones: ${openZoneNames.join(', ')}`);
+    }
+
+    this.emitEvent('armingReadiness', {
+      state: mode,
+      mode: ALARM_VALUES_TO_NAMES(mode),
+      result: result,
+      zones: openZones.map((runtimeCacheAccessory) => this.getZoneStatus(runtimeCacheAccessory)),
+    });
+
+    return result !== 'refused';
+  }
+
+  /**
+   * Sound the sirens with the siren pattern of an alarm class (configured, or the default pattern of the class).
+   * The pulses of patterns with a cycle are repeated until the alarm ends.
+   *
+   * @param alarmClass string  The class of the triggered alarm.
+   */
+  soundSirens(alarmClass: typeof ALARM_CLASSES[number]) {
+    clearInterval(this.sirenPatternTimerHandle as NodeJS.Timeout);
+    delete this.sirenPatternTimerHandle;
+
+    const patternName = this.config.advanced?.sirenPatternSettings?.[alarmClass] || ALARM_CLASSES_TO_SIREN_PATTERNS[alarmClass];
+    const pattern: Record<string, number> | undefined = SIREN_PATTERNS[patternName];
+
+    const actuateSirens = () => {
+      this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+        if ('siren' === runtimeCacheAccessory.type) {
+          this.actuateAccessory(runtimeCacheAccessory.UUID, true, pattern ? pattern : null);
+        }
+      });
+    };
+    actuateSirens();
+
+    if (pattern?.cycle) {
+      this.sirenPatternTimerHandle = setInterval(actuateSirens, pattern.cycle);
+    }
+  }
+
   /**
    * Arm/Disarm/Trigger the security system accessory.
    *
    * @param value number  The value to change the state of the Security System accessory to.
+   * @param alarmClass string  The class of the alarm when the security system is triggered (default: burglary).
+   * @param checkReadiness boolean  Whether to check for open zones before arming (default: true).
+   * @returns boolean  False if the state of the Security System accessory was not changed.
    */
-  controlSecuritySystem(value: number) {
+  controlSecuritySystem(value: number, alarmClass: typeof ALARM_CLASSES[number] = 'burglary', checkReadiness = true) {
+    // a triggered alarm is only replaced by an alarm of a higher priority
+    if (value === 4 && this.alarmClass && ALARM_CLASSES.indexOf(alarmClass) >= ALARM_CLASSES.indexOf(this.alarmClass)) {
+      return false;
+    }
+
+    // arming with open zones may be refused, the target state goes back to the state the security system is in
+    // (a triggered security system keeps the target state it was armed with)
+    if (value < 3 && checkReadiness && !this.checkArmingReadiness(value)) {
+      const securitySystemService = this.konnectedPlatformAccessories[this.securitySystemUUID].service;
+      const currentState = this.accessories.find((accessory) => accessory.UUID === this.securitySystemUUID)?.context.device.state;
+      securitySystemService.updateCharacteristic(
+        this.Characteristic.SecuritySystemTargetState,
+        currentState <= 3
+          ? currentState
+          : securitySystemService.getCharacteristic(this.Characteristic.SecuritySystemTargetState).value
+      );
+      return false;
+    }
+
     // pulse settings
     const duration = 100; // change this to make the pulse longer or shorter, everything else will calculate
     const pause = 1000 - duration;
@@ -1180,6 +3668,8 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
         value
       );
 
+      this.emitEvent('arming', { state: value, mode: ALARM_VALUES_TO_NAMES(value) });
+
       this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
         if ('beeper' === runtimeCacheAccessory.type) {
           // clears any current beeping
@@ -1187,63 +3677,66 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
         }
       });
 
-      if (
-        (typeof this.config.advanced?.exitDelaySettings?.audibleBeeperModes !== 'undefined' &&
-          this.config.advanced?.exitDelaySettings?.audibleBeeperModes.includes(String(value))) ||
-        (typeof this.config.advanced?.exitDelaySettings?.audibleBeeperModes === 'undefined' && value === 1)
-      ) {
-        // if the user has configured which mode should have audible beeper countdowns
-        // or if not, but the security mode is being set to away, then we do some sort of default countdown
-        this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
-          if ('beeper' === runtimeCacheAccessory.type) {
-            if (this.exitTriggerDelay > minDefault) {
-              // three stages of short beeper pulses (per second): 1ps > 2ps > 4ps
-              this.actuateAccessory(runtimeCacheAccessory.UUID, true, {
-                pulseDuration: duration,
-                pulsePause: pause,
-                pulseRepeat: Math.floor(this.exitTriggerDelay / 1000 / 3),
-              });
-              // we need to clear this if the mode changes before they complete
-              // make as a variable that we can clear set timeout
-              this.exitTriggerDelayTimerHandle2 = setTimeout(() => {
+      const exitTriggerDelay = this.getExitDelay(value);
+
+      if (exitTriggerDelay > 0) {
+        if (this.isExitDelayAudible(value)) {
+          // a countdown of beeps over the course of the exit delay
+          this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+            if ('beeper' === runtimeCacheAccessory.type) {
+              if (exitTriggerDelay > minDefault) {
+                // three stages of short beeper pulses (per second): 1ps > 2ps > 4ps
                 this.actuateAccessory(runtimeCacheAccessory.UUID, true, {
                   pulseDuration: duration,
-                  pulsePause: pause / 2,
-                  pulseRepeat: Math.floor((this.exitTriggerDelay / 1000 / 3) * 2) - 1,
+                  pulsePause: pause,
+                  pulseRepeat: Math.floor(exitTriggerDelay / 1000 / 3),
                 });
-              }, this.exitTriggerDelay / 3);
-              // we need to clear this if the mode changes before they complete
-              // make as a variable that we can clear set timeout
-              this.exitTriggerDelayTimerHandle3 = setTimeout(() => {
+                // we need to clear this if the mode changes before they complete
+                // make as a variable that we can clear set timeout
+                this.exitTriggerDelayTimerHandle2 = setTimeout(() => {
+                  this.actuateAccessory(runtimeCacheAccessory.UUID, true, {
+                    pulseDuration: duration,
+                    pulsePause: pause / 2,
+                    pulseRepeat: Math.floor((exitTriggerDelay / 1000 / 3) * 2) - 1,
+                  });
+                }, exitTriggerDelay / 3);
+                // we need to clear this if the mode changes before they complete
+                // make as a variable that we can clear set timeout
+                this.exitTriggerDelayTimerHandle3 = setTimeout(() => {
+                  this.actuateAccessory(runtimeCacheAccessory.UUID, true, {
+                    pulseDuration: duration,
+                    pulsePause: pause / 4,
+                    pulseRepeat: Math.floor((exitTriggerDelay / 1000 / 3) * 4) - 2,
+                  });
+                }, (exitTriggerDelay / 3) * 2);
+              } else if (exitTriggerDelay <= minDefault && exitTriggerDelay > 1000) {
+                // one short pulse per second
                 this.actuateAccessory(runtimeCacheAccessory.UUID, true, {
                   pulseDuration: duration,
-                  pulsePause: pause / 4,
-                  pulseRepeat: Math.floor((this.exitTriggerDelay / 1000 / 3) * 4) - 2,
+                  pulsePause: pause,
+                  pulseRepeat: exitTriggerDelay / 1000,
                 });
-              }, (this.exitTriggerDelay / 3) * 2);
-            } else if (this.exitTriggerDelay <= minDefault && this.exitTriggerDelay > 1000) {
-              // one short pulse per second
-              this.actuateAccessory(runtimeCacheAccessory.UUID, true, {
-                pulseDuration: duration,
-                pulsePause: pause,
-                pulseRepeat: this.exitTriggerDelay / 1000,
-              });
+              }
             }
-          }
-        });
+          });
+        }
+        this.emitEvent('exitDelay', { state: value, mode: ALARM_VALUES_TO_NAMES(value), delay: exitTriggerDelay });
+
         // wait the exit delay time and then arm security system based on value
         this.exitTriggerDelayTimerHandle1 = setTimeout(() => {
           this.konnectedPlatformAccessories[this.securitySystemUUID].service.updateCharacteristic(
             this.Characteristic.SecuritySystemCurrentState,
             value
           );
-        }, this.exitTriggerDelay);
+          this.emitEvent('armed', { state: value, mode: ALARM_VALUES_TO_NAMES(value) });
+        }, exitTriggerDelay);
       } else {
         // immediately arm system
         this.konnectedPlatformAccessories[this.securitySystemUUID].service.updateCharacteristic(
           this.Characteristic.SecuritySystemCurrentState,
           value
         );
+        this.emitEvent('armed', { state: value, mode: ALARM_VALUES_TO_NAMES(value) });
       }
     } else {
       // 3: disarmed, 4: alarm triggered
@@ -1251,6 +3744,36 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
         this.Characteristic.SecuritySystemCurrentState,
         value
       );
+      if (value === 3) {
+        this.emitEvent('disarmed', { state: value, mode: ALARM_VALUES_TO_NAMES(value) });
+      } else {
+        this.emitEvent('triggered', { state: value, mode: ALARM_VALUES_TO_NAMES(value), alarmClass: alarmClass });
+      }
+    }
+
+    // HomeKit's alarm type is only 0 (no alarm) or 1 (unknown alarm) and can't tell the classes of alarm apart,
+    // the class is reported by the control API and the live event stream instead
+    if (value === 4) {
+      this.alarmClass = alarmClass;
+      this.konnectedPlatformAccessories[this.securitySystemUUID].service.updateCharacteristic(
+        this.Characteristic.SecuritySystemAlarmType,
+        1
+      );
+    } else if (this.alarmClass) {
+      this.clearAlarmClass();
+    }
+
+    // remember the armed mode to re-arm to after an alarm (an alarm of higher priority keeps the mode of the first alarm),
+    // and stop a running entry delay unless the security system is triggered
+    const previousState = this.accessories.find((accessory) => accessory.UUID === this.securitySystemUUID)?.context.device.state;
+    if (value !== 4) {
+      clearTimeout(this.entryTriggerDelayTimerHandle);
+      delete this.entryTriggerDelayTimerHandle;
+      delete this.rearmState;
+      clearTimeout(this.sirenTimeoutTimerHandle as NodeJS.Timeout);
+      delete this.sirenTimeoutTimerHandle;
+    } else if (previousState < 3) {
+      this.rearmState = previousState;
     }
 
     // store in platform accessories cache
@@ -1260,10 +3783,14 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
       }
     });
 
-    // if the security system is turned off, turn beepers, sirens and strobes off
+    // if the security system is turned off, turn beepers, sirens and strobes off, and end the bypass of zones (except permanent bypasses)
     if (value === 3) {
-      clearTimeout(this.entryTriggerDelayTimerHandle);
-      delete this.entryTriggerDelayTimerHandle;
+      this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+        if (runtimeCacheAccessory.permanentBypass !== true) {
+          this.setZoneBypass(runtimeCacheAccessory.UUID, false);
+        }
+      });
+      this.swingerTrips = {};
       this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
         if (['beeper', 'siren', 'strobe'].includes(runtimeCacheAccessory.type)) {
           this.actuateAccessory(runtimeCacheAccessory.UUID, false, null);
@@ -1273,20 +3800,33 @@ export class KonnectedHomebridgePlatform implements DynamicPlatformPlugin {
 
     // if the security system is triggered
     if (value === 4) {
+      this.incrementMetric('konnected_alarm_triggers_total');
+      this.log.warn(`Security system triggered with a '${alarmClass}' alarm.`);
+
       this.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
         // turns off the beeper
         if ('beeper' === runtimeCacheAccessory.type) {
           this.actuateAccessory(runtimeCacheAccessory.UUID, false, null);
         }
-        // turns on the siren and strobe lights
-        if (['siren', 'strobe'].includes(runtimeCacheAccessory.type)) {
+        // turns on the strobe lights
+        if ('strobe' === runtimeCacheAccessory.type) {
           this.actuateAccessory(runtimeCacheAccessory.UUID, true, null);
         }
       });
+      // turns on the sirens with the pattern of the alarm class
+      this.soundSirens(alarmClass);
+
+      // silence the sirens after the siren timeout (restarted by an alarm of a higher priority)
+      if (this.sirenTimeout > 0) {
+        clearTimeout(this.sirenTimeoutTimerHandle as NodeJS.Timeout);
+        this.sirenTimeoutTimerHandle = setTimeout(() => this.timeoutSirens(), this.sirenTimeout);
+      }
 
       /** for future
        * @link https://www.npmjs.com/package/@noonlight/noonlight-sdk
        */
     }
+
+    return true;
   }
 }
\ No newline at end of file
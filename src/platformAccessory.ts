@@ -1,5 +1,6 @@
 import { Service, PlatformAccessory, CharacteristicValue } from 'homebridge';
 import { TYPES_TO_ACCESSORIES } from './constants';
+import { ZoneHistoryInterface } from './interfaces';
 import { KonnectedHomebridgePlatform } from './platform';
 
 /**
@@ -10,6 +11,11 @@ export class KonnectedPlatformAccessory {
   private service: Service;
   private accessoryServiceType: string;
   private temperatureSensorService;
+  private occupancySensorService;
+  private highTemperatureAlertService;
+  private lowTemperatureAlertService;
+  private historyService;
+  private bypassSwitchService;
   private validSecuritySystemCurrentStates: number[];
 
   constructor(private readonly platform: KonnectedHomebridgePlatform, private readonly accessory: PlatformAccessory) {
@@ -94,9 +100,29 @@ export class KonnectedPlatformAccessory {
         break;
 
       case 'MotionSensor':
-        this.service
-          .getCharacteristic(this.platform.Characteristic.MotionDetected)
-          .onGet(this.getMotionSensorState.bind(this));
+        {
+          this.service
+            .getCharacteristic(this.platform.Characteristic.MotionDetected)
+            .onGet(this.getMotionSensorState.bind(this));
+          // the optional secondary service is an occupancy sensor that stays occupied after motion
+          const occupancySensorService = this.accessory.getService('Occupancy Sensor');
+          if (accessory.context.device.motionSettings?.occupancySensor) {
+            this.occupancySensorService =
+              occupancySensorService ||
+              this.accessory
+                .addService(
+                  this.platform.Service.OccupancySensor,
+                  'Occupancy Sensor',
+                  accessory.context.device.serialNumber + '.1'
+                )
+                .setCharacteristic(this.platform.Characteristic.SerialNumber, accessory.context.device.serialNumber + '.1');
+            this.occupancySensorService
+              .getCharacteristic(this.platform.Characteristic.OccupancyDetected)
+              .onGet(this.getOccupancySensorState.bind(this));
+          } else if (occupancySensorService) {
+            this.accessory.removeService(occupancySensorService);
+          }
+        }
         break;
 
       case 'LeakSensor':
@@ -111,10 +137,28 @@ export class KonnectedPlatformAccessory {
           .onGet(this.getSmokeSensorState.bind(this));
         break;
 
+      case 'CarbonMonoxideSensor':
+        this.service
+          .getCharacteristic(this.platform.Characteristic.CarbonMonoxideDetected)
+          .onGet(this.getCarbonMonoxideSensorState.bind(this));
+        break;
+
+      case 'StatelessProgrammableSwitch':
+        // stateless, presses are sent to HomeKit as they are detected
+        break;
+
+      case 'Doorbell':
+        // doorbells only ring
+        this.service
+          .getCharacteristic(this.platform.Characteristic.ProgrammableSwitchEvent)
+          .setProps({ validValues: [this.platform.Characteristic.ProgrammableSwitchEvent.SINGLE_PRESS] });
+        break;
+
       case 'TemperatureSensor':
         this.service
           .getCharacteristic(this.platform.Characteristic.CurrentTemperature)
           .onGet(this.getTemperatureSensorValue.bind(this));
+        this.configureTemperatureAlertServices();
         break;
 
       case 'HumiditySensor':
@@ -134,6 +178,7 @@ export class KonnectedPlatformAccessory {
                 accessory.context.device.serialNumber + '.1'
               )
               .setCharacteristic(this.platform.Characteristic.SerialNumber, accessory.context.device.serialNumber + '.1');
+          this.configureTemperatureAlertServices();
         }
         break;
 
@@ -144,9 +189,169 @@ export class KonnectedPlatformAccessory {
           .onSet(this.setSwitchState.bind(this));
         break;
 
+      case 'Valve':
+        {
+          const valveTypes = {
+            generic: this.platform.Characteristic.ValveType.GENERIC_VALVE,
+            irrigation: this.platform.Characteristic.ValveType.IRRIGATION,
+            shower: this.platform.Characteristic.ValveType.SHOWER_HEAD,
+            faucet: this.platform.Characteristic.ValveType.WATER_FAUCET,
+          };
+          this.service.setCharacteristic(
+            this.platform.Characteristic.ValveType,
+            valveTypes[accessory.context.device.valveSettings?.valveType] ?? valveTypes.irrigation
+          );
+          this.service
+            .getCharacteristic(this.platform.Characteristic.Active)
+            .onGet(this.getValveActiveState.bind(this))
+            .onSet(this.setValveActiveState.bind(this));
+          this.service
+            .getCharacteristic(this.platform.Characteristic.InUse)
+            .onGet(this.getValveActiveState.bind(this));
+          this.service
+            .getCharacteristic(this.platform.Characteristic.SetDuration)
+            .onGet(this.getValveDuration.bind(this))
+            .onSet(this.setValveDuration.bind(this));
+          this.service
+            .getCharacteristic(this.platform.Characteristic.RemainingDuration)
+            .onGet(this.getValveRemainingDuration.bind(this));
+        }
+        break;
+
+      case 'GarageDoorOpener':
+        this.service
+          .getCharacteristic(this.platform.Characteristic.CurrentDoorState)
+          .onGet(this.getGarageDoorCurrentState.bind(this));
+        this.service
+          .getCharacteristic(this.platform.Characteristic.TargetDoorState)
+          .onGet(this.getGarageDoorTargetState.bind(this))
+          .onSet(this.setGarageDoorTargetState.bind(this));
+        this.service
+          .getCharacteristic(this.platform.Characteristic.ObstructionDetected)
+          .onGet(this.getGarageDoorObstruction.bind(this));
+        break;
+
       default:
         break;
     }
+
+    this.configureBypassSwitchService();
+    this.configureHistoryService();
+  }
+
+  /**
+   * Add a switch service linked to the sensor service that bypasses the zone while it is on,
+   * or remove it when the zone has no bypass switch configured.
+   */
+  configureBypassSwitchService() {
+    const subtype = this.accessory.context.device.serialNumber + '.4';
+    const existingService = this.accessory.getServiceById(this.platform.Service.Switch, subtype);
+
+    if (this.accessory.context.device.bypassSwitch) {
+      this.bypassSwitchService =
+        existingService ||
+        this.accessory
+          .addService(this.platform.Service.Switch, this.accessory.context.device.displayName + ' Bypass', subtype)
+          .setCharacteristic(this.platform.Characteristic.SerialNumber, subtype);
+      this.service.addLinkedService(this.bypassSwitchService);
+      this.bypassSwitchService
+        .getCharacteristic(this.platform.Characteristic.On)
+        .onGet(async () => this.accessory.context.device.bypassed === true)
+        .onSet(async (value) => this.platform.setZoneBypass(this.accessory.context.device.UUID, value as boolean));
+    } else if (existingService) {
+      this.accessory.removeService(existingService);
+    }
+  }
+
+  /**
+   * Add a contact sensor service for each temperature threshold of the zone that opens when the temperature is past it,
+   * and remove the services of thresholds that are no longer configured.
+   */
+  configureTemperatureAlertServices() {
+    const settings = this.accessory.context.device.environmentalSensorSettings;
+
+    (['high', 'low'] as const).forEach((alert, index) => {
+      const serviceName = alert === 'high' ? 'High Temperature Alert' : 'Low Temperature Alert';
+      const subtype = this.accessory.context.device.serialNumber + '.' + (index + 2);
+      const existingService = this.accessory.getService(serviceName);
+
+      if (typeof settings?.[alert + 'Threshold'] === 'number') {
+        const alertService =
+          existingService ||
+          this.accessory
+            .addService(this.platform.Service.ContactSensor, serviceName, subtype)
+            .setCharacteristic(this.platform.Characteristic.SerialNumber, subtype);
+        alertService
+          .getCharacteristic(this.platform.Characteristic.ContactSensorState)
+          .onGet(async () => this.getAccessoryState(alert + 'Alert') as number);
+        this[alert + 'TemperatureAlertService'] = alertService;
+      } else if (existingService) {
+        this.accessory.removeService(existingService);
+      }
+    });
+  }
+
+  /**
+   * Add the Eve history service to contact, motion and environmental sensors, with the Eve characteristics
+   * for the last activation and open counts of contact and motion sensors, or remove them when history is not enabled.
+   */
+  configureHistoryService() {
+    const historyTypes: Record<string, 'door' | 'motion' | 'weather'> = {
+      ContactSensor: 'door',
+      MotionSensor: 'motion',
+      TemperatureSensor: 'weather',
+      HumiditySensor: 'weather',
+    };
+    const historyType = historyTypes[this.accessoryServiceType];
+    const existingService = this.accessory.services.find(
+      (service) => service.UUID === this.platform.FakeGatoHistoryService.UUID
+    );
+
+    if (!this.platform.historyEnabled || typeof historyType === 'undefined') {
+      if (existingService) {
+        this.accessory.removeService(existingService);
+      }
+      delete this.platform.historyServices[this.accessory.UUID];
+      Object.values(this.platform.EveCharacteristic).forEach((eveCharacteristic) => {
+        const existingCharacteristic = this.service.characteristics.find(
+          (characteristic) => characteristic.UUID === eveCharacteristic.UUID
+        );
+        if (existingCharacteristic) {
+          this.service.removeCharacteristic(existingCharacteristic);
+        }
+      });
+      return;
+    }
+
+    // reuse the history service created for this accessory before (e.g., when its zones are reconfigured),
+    // otherwise it is found or added to the accessory by fakegato-history
+    const cachedHistoryService = this.platform.historyServices[this.accessory.UUID];
+    if (cachedHistoryService && this.accessory.services.includes(cachedHistoryService)) {
+      this.historyService = cachedHistoryService;
+    } else {
+      this.historyService = new this.platform.FakeGatoHistoryService(historyType, this.accessory, {
+        storage: 'fs',
+        path: this.platform.api.user.storagePath(),
+        filename: `konnected-history-${this.accessory.context.device.serialNumber}.json`,
+        log: this.platform.log,
+      });
+      this.platform.historyServices[this.accessory.UUID] = this.historyService;
+    }
+
+    if (['door', 'motion'].includes(historyType)) {
+      this.service
+        .getCharacteristic(this.platform.EveCharacteristic.LastActivation)
+        .onGet(async () => this.getHistoryValue('lastActivation'));
+    }
+    if ('door' === historyType) {
+      this.service
+        .getCharacteristic(this.platform.EveCharacteristic.TimesOpened)
+        .onGet(async () => this.getHistoryValue('timesOpened'));
+      this.service
+        .getCharacteristic(this.platform.EveCharacteristic.ResetTotal)
+        .onGet(async () => this.getHistoryValue('resetTotal'))
+        .onSet(async (value) => this.platform.resetZoneHistory(this.accessory.context.device.UUID, value as number));
+    }
   }
 
   /**
@@ -176,6 +381,11 @@ export class KonnectedPlatformAccessory {
     return state as boolean;
   }
 
+  async getOccupancySensorState(): Promise<CharacteristicValue> {
+    const state = this.getAccessoryState('occupancy');
+    return state as number;
+  }
+
   async getLeakSensorState(): Promise<CharacteristicValue> {
     const state = this.getAccessoryState('water');
     return state as number;
@@ -186,6 +396,11 @@ export class KonnectedPlatformAccessory {
     return state as number;
   }
 
+  async getCarbonMonoxideSensorState(): Promise<CharacteristicValue> {
+    const state = this.getAccessoryState('co');
+    return state as number;
+  }
+
   async getTemperatureSensorValue(): Promise<CharacteristicValue> {
     const temp = this.getAccessoryState('temp');
     return temp as number;
@@ -205,6 +420,61 @@ export class KonnectedPlatformAccessory {
     this.setAccessoryState('switch', value as boolean);
   }
 
+  async getValveActiveState(): Promise<CharacteristicValue> {
+    const state = this.getAccessoryState('valve');
+    return state as number;
+  }
+
+  async setValveActiveState(value: CharacteristicValue) {
+    this.platform.log.debug(
+      `Set [${this.accessory.context.device.displayName}] (${this.accessory.context.device.serialNumber}) as '${this.accessory.context.device.type}' characteristic value: ${value}`
+    );
+    this.platform.controlValve(this.accessory.context.device.UUID, value === this.platform.Characteristic.Active.ACTIVE);
+  }
+
+  async getValveDuration(): Promise<CharacteristicValue> {
+    const duration = this.getAccessoryState('duration');
+    return duration as number;
+  }
+
+  async setValveDuration(value: CharacteristicValue) {
+    this.platform.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
+      if (runtimeCacheAccessory.UUID === this.accessory.context.device.UUID) {
+        runtimeCacheAccessory.duration = this.accessory.context.device.duration = value as number;
+        this.platform.log.debug(
+          `Set [${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber}) as '${runtimeCacheAccessory.type}' duration characteristic value: ${value}`
+        );
+      }
+    });
+  }
+
+  async getValveRemainingDuration(): Promise<CharacteristicValue> {
+    const remainingDuration = this.getAccessoryState('remaining');
+    return remainingDuration as number;
+  }
+
+  async getGarageDoorCurrentState(): Promise<CharacteristicValue> {
+    const state = this.getAccessoryState('door');
+    return state as number;
+  }
+
+  async getGarageDoorTargetState(): Promise<CharacteristicValue> {
+    const state = this.getAccessoryState('doorTarget');
+    return state as number;
+  }
+
+  async setGarageDoorTargetState(value: CharacteristicValue) {
+    this.platform.log.debug(
+      `Set [${this.accessory.context.device.displayName}] (${this.accessory.context.device.serialNumber}) as '${this.accessory.context.device.type}' target characteristic value: ${value}`
+    );
+    this.platform.controlGarageDoor(this.accessory.context.device.UUID, value as number);
+  }
+
+  async getGarageDoorObstruction(): Promise<CharacteristicValue> {
+    const obstructed = this.getAccessoryState('obstruction');
+    return obstructed as boolean;
+  }
+
   // get and set the security system states
   getSecuritySystemState(characteristic: string) {
     let value = 1; // default to Away (in case of catastrophic reset when not home, this preserves the home's security)
@@ -230,11 +500,14 @@ export class KonnectedPlatformAccessory {
   }
 
   setSecuritySystemState(characteristic: string, value: number) {
-    this.accessory.context.device.state = value;
     this.platform.log.debug(
       `Set [${this.accessory.context.device.displayName}] (${this.accessory.context.device.serialNumber}) '${this.accessory.context.device.type}' ${characteristic} characteristic value: ${value}`
     );
-    this.platform.controlSecuritySystem(value);
+    // arming with open zones may be refused, which keeps the previous target state in HomeKit
+    if (!this.platform.controlSecuritySystem(value)) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    }
+    this.accessory.context.device.state = value;
     return value;
   }
 
@@ -248,7 +521,7 @@ export class KonnectedPlatformAccessory {
         const logLabelType = type !== runtimeCacheAccessory.type ? '-' + type : '';
 
         // binary accessory
-        if (['motion', 'switch', 'contact', 'water', 'smoke'].includes(type)) {
+        if (['motion', 'switch', 'contact', 'water', 'smoke', 'co', 'valve'].includes(type)) {
           if (typeof runtimeCacheAccessory.state !== 'number') {
             runtimeCacheAccessory.state = this.accessory.context.device.state = value = 0;
             logLabelDefault = 'default ';
@@ -283,6 +556,59 @@ export class KonnectedPlatformAccessory {
           }
         }
 
+        // temperature alerts of a temperature or humidity accessory
+        if ('highAlert' === type || 'lowAlert' === type) {
+          value = runtimeCacheAccessory[type] === true ? 1 : 0;
+        }
+
+        // occupancy sensor of a motion accessory
+        if ('occupancy' === type) {
+          value = runtimeCacheAccessory.occupied === true ? 1 : 0;
+        }
+
+        // valve duration
+        if ('duration' === type) {
+          value = this.platform.getValveDuration(runtimeCacheAccessory);
+        }
+
+        // valve countdown
+        if ('remaining' === type) {
+          value = this.platform.getValveRemainingDuration(runtimeCacheAccessory);
+        }
+
+        // garage door accessory
+        if ('door' === type) {
+          if (typeof runtimeCacheAccessory.state !== 'number') {
+            // default to the position reported by the contact zone, otherwise closed
+            runtimeCacheAccessory.state = this.accessory.context.device.state = value =
+              this.platform.getGarageDoorContactState(runtimeCacheAccessory) === 1
+                ? this.platform.Characteristic.CurrentDoorState.OPEN
+                : this.platform.Characteristic.CurrentDoorState.CLOSED;
+            logLabelDefault = 'default ';
+          } else {
+            value = this.accessory.context.device.state = Number(runtimeCacheAccessory.state);
+          }
+        }
+
+        // garage door target
+        if ('doorTarget' === type) {
+          if (typeof runtimeCacheAccessory.targetState !== 'number') {
+            // a door at rest targets where it is
+            runtimeCacheAccessory.targetState = this.accessory.context.device.targetState = value =
+              runtimeCacheAccessory.state === this.platform.Characteristic.CurrentDoorState.OPEN
+                ? this.platform.Characteristic.TargetDoorState.OPEN
+                : this.platform.Characteristic.TargetDoorState.CLOSED;
+            logLabelDefault = 'default ';
+          } else {
+            value = this.accessory.context.device.targetState = runtimeCacheAccessory.targetState;
+          }
+        }
+
+        // garage door obstruction
+        if ('obstruction' === type) {
+          value = this.accessory.context.device.obstructed = runtimeCacheAccessory.obstructed === true;
+        }
+
         this.platform.log.debug(
           `Get ${logLabelDefault}[${runtimeCacheAccessory.displayName}] (${runtimeCacheAccessory.serialNumber}) as '${runtimeCacheAccessory.type}${logLabelType}' characteristic value: ${value}`
         );
@@ -291,6 +617,23 @@ export class KonnectedPlatformAccessory {
     return value;
   }
 
+  // get a counter from the Eve history of a sensor
+  getHistoryValue(key: keyof ZoneHistoryInterface) {
+    const history = (this.historyService?.getExtraPersistedData() || {}) as ZoneHistoryInterface;
+    let value = history[key] || 0;
+
+    // Eve expects the last activation in seconds since the history started
+    if ('lastActivation' === key) {
+      const initialTime = this.historyService?.getInitialTime();
+      value = history.lastActivation && initialTime ? Math.max(history.lastActivation - initialTime, 0) : 0;
+    }
+
+    this.platform.log.debug(
+      `Get [${this.accessory.context.device.displayName}] (${this.accessory.context.device.serialNumber}) as '${this.accessory.context.device.type}-${key}' characteristic value: ${value}`
+    );
+    return value;
+  }
+
   // for actuators
   setAccessoryState(type: string, value: boolean) {
     this.platform.accessoriesRuntimeCache.forEach((runtimeCacheAccessory) => {
@@ -1,3 +1,6 @@
+import { API, Characteristic, WithUUID } from 'homebridge';
+import fs from 'fs';
+
 /**
  * Utility for de-circularizing objects with circular references
  */
@@ -22,4 +25,76 @@ export const ReplaceCircular = (val, cache?) => {
   }
 
   return val;
-};
\ No newline at end of file
+};
+
+/**
+ * Utility for formatting a set of labels for the Prometheus text exposition format
+ */
+export const FormatMetricLabels = (labels: Record<string, unknown>) => {
+  const labelPairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return labelPairs.length ? `{${labelPairs.join(',')}}` : '';
+};
+
+/**
+ * Utility for writing a file atomically: the data is written and flushed to a temporary file
+ * in the same directory, which is then renamed over the target, so the target is never left half-written
+ */
+export const WriteFileAtomic = (filePath: string, data: string) => {
+  // write through symlinks (e.g., a linked config.json) rather than replacing them
+  const targetPath = fs.existsSync(filePath) ? fs.realpathSync(filePath) : filePath;
+  const tempPath = `${targetPath}.${process.pid}.${Date.now()}.tmp`;
+
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeFileSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    // keep the permissions of the file being replaced
+    if (fs.existsSync(targetPath)) {
+      fs.chmodSync(tempPath, fs.statSync(targetPath).mode);
+    }
+    fs.renameSync(tempPath, targetPath);
+  } catch (error) {
+    // clean up the temporary file, but report why the write failed rather than why the cleanup did
+    try {
+      fs.unlinkSync(tempPath);
+    } catch {
+      // the temporary file is left behind
+    }
+    throw error;
+  }
+};
+
+/**
+ * Utility for creating the custom characteristics the Eve app reads alongside the history of contact and motion sensors
+ */
+export const EveCharacteristics = (
+  api: API
+): Record<'TimesOpened' | 'LastActivation' | 'ResetTotal', WithUUID<new () => Characteristic>> => {
+  const eveCharacteristic = (displayName: string, UUID: string, writable = false): WithUUID<new () => Characteristic> =>
+    class extends api.hap.Characteristic {
+      static readonly UUID: string = UUID;
+
+      constructor() {
+        super(displayName, UUID, {
+          format: api.hap.Formats.UINT32,
+          perms: writable
+            ? [api.hap.Perms.PAIRED_READ, api.hap.Perms.PAIRED_WRITE, api.hap.Perms.NOTIFY]
+            : [api.hap.Perms.PAIRED_READ, api.hap.Perms.NOTIFY],
+        });
+        this.value = this.getDefaultValue();
+      }
+    };
+
+  return {
+    TimesOpened: eveCharacteristic('Times Opened', 'E863F129-079E-48FF-8F27-9C2605A29F52'),
+    LastActivation: eveCharacteristic('Last Activation', 'E863F11A-079E-48FF-8F27-9C2605A29F52'),
+    ResetTotal: eveCharacteristic('Reset Total', 'E863F112-079E-48FF-8F27-9C2605A29F52', true),
+  };
+};
@@ -0,0 +1,198 @@
+import { ZONES, ZONES_TO_PINS, ZONE_TYPES, TYPES_TO_ACCESSORIES, TYPES_TO_ALARM_CLASSES } from './constants';
+import { ConfigValidationIssueInterface, ConfigValidationReportInterface } from './interfaces';
+
+/**
+ * Validate the panels and zones of the plugin config, without touching panels or accessories.
+ *
+ * Zones are checked against the zones available on each panel model (ZONES for Pro, ZONES_TO_PINS for V1-V2)
+ * and the zone types (ZONE_TYPES). If the model of a panel is not known yet (it is only reported by the panel),
+ * zones are checked against both models.
+ *
+ * Issues with enabled zones are errors, since they change what gets provisioned, issues with disabled zones are warnings.
+ *
+ * @param configPanels array  The panels array of the plugin config.
+ * @param panelModels object  The known model ('Pro' or 'V1-V2') of panels, keyed by panel UUID.
+ */
+export const ValidatePanelsConfig = (
+  configPanels: Record<string, unknown>[] = [],
+  panelModels: Record<string, 'Pro' | 'V1-V2'> = {}
+): ConfigValidationReportInterface => {
+  const issues: ConfigValidationIssueInterface[] = [];
+
+  const buttonTypes = ['button', 'doorbell'];
+  const binarySensorTypes = ZONE_TYPES.sensors.filter((zoneType) => !buttonTypes.includes(zoneType));
+  const environmentalSensorTypes = [...ZONE_TYPES.dht_sensors, ...ZONE_TYPES.ds18b20_sensors];
+  const actuatorTypes = ZONE_TYPES.actuators;
+
+  configPanels.forEach((configPanel, panelIndex) => {
+    const panel = String(configPanel.name || configPanel.uuid || `panels[${panelIndex}]`);
+    const panelModel = panelModels[String(configPanel.uuid)];
+    const zoneNumbers: string[] = [];
+
+    if (!configPanel.uuid) {
+      issues.push({
+        level: 'warning',
+        panel: panel,
+        message: 'Panel has no UUID, it will be assigned when the panel is discovered.',
+      });
+    }
+
+    ((configPanel.zones || []) as Record<string, unknown>[]).forEach((configPanelZone, zoneIndex) => {
+      const zone = typeof configPanelZone.zoneNumber !== 'undefined' ? String(configPanelZone.zoneNumber) : undefined;
+      const zoneType = String(configPanelZone.zoneType);
+      const level = configPanelZone.enabled === true ? 'error' : 'warning';
+      const addIssue = (issueLevel: 'error' | 'warning', message: string) => {
+        issues.push({ level: issueLevel, panel: panel, zone: zone || `zones[${zoneIndex}]`, message: message });
+      };
+
+      if (typeof zone === 'undefined') {
+        addIssue(level, 'Zone has no zone number.');
+        return;
+      }
+
+      // zone types
+      if (typeof configPanelZone.zoneType === 'undefined') {
+        addIssue(level, 'Zone has no zone type.');
+      } else if (!(zoneType in TYPES_TO_ACCESSORIES) || zoneType === 'securitysystem') {
+        addIssue(level, `Unknown zone type '${zoneType}'.`);
+      }
+
+      // duplicate zone numbers
+      if (zoneNumbers.includes(zone)) {
+        addIssue(level, `Zone number '${zone}' is assigned in two or more zones, only the first one will be used.`);
+      }
+      zoneNumbers.push(zone);
+
+      // zone availability and actuator capability per panel model
+      const proIssue =
+        zone === 'out'
+          ? `Konnected Pro Alarm Panels do not have a zone named '${zone}', change the zone assignment to 'alarm1', 'out1', or 'alarm2_out2'.`
+          : !(zone in ZONES)
+            ? `Konnected Pro Alarm Panels do not have a zone '${zone}'. Try zones 1-12, 'alarm1', 'out1', or 'alarm2_out2'.`
+            : actuatorTypes.includes(zoneType) && !ZONES[zone].includes(zoneType)
+              ? `Konnected Pro Alarm Panels cannot have zone ${zone} as an actuator/switch. Try zones 1-8, 'alarm1', 'out1', or 'alarm2_out2'.`
+              : undefined;
+      const v1v2Issue = !(zone in ZONES_TO_PINS)
+        ? `Konnected V1-V2 Alarm Panels do not have a zone '${zone}'. Try zones 1-6 or 'out'.`
+        : actuatorTypes.includes(zoneType) && !(Number(zone) < 6 || zone === 'out')
+          ? `Konnected V1-V2 Alarm Panels cannot have zone ${zone} as an actuator/switch. Try zones 1-5 or 'out'.`
+          : undefined;
+
+      if (panelModel === 'Pro' && proIssue) {
+        addIssue(level, proIssue);
+      } else if (panelModel === 'V1-V2' && v1v2Issue) {
+        addIssue(level, v1v2Issue);
+      } else if (typeof panelModel === 'undefined' && proIssue && v1v2Issue) {
+        addIssue(level, `${proIssue} ${v1v2Issue}`);
+      }
+
+      // settings that don't apply to the zone type
+      if (configPanelZone.binarySensorSettings && !binarySensorTypes.includes(zoneType)) {
+        addIssue('warning', `Binary sensor settings are ignored for '${zoneType}' zones.`);
+      }
+      if (configPanelZone.buttonSettings && !buttonTypes.includes(zoneType)) {
+        addIssue('warning', `Button settings are ignored for '${zoneType}' zones.`);
+      }
+      if (configPanelZone.environmentalSensorSettings && !environmentalSensorTypes.includes(zoneType)) {
+        addIssue('warning', `Environmental sensor settings are ignored for '${zoneType}' zones.`);
+      }
+      if (configPanelZone.switchSettings && !actuatorTypes.includes(zoneType)) {
+        addIssue('warning', `Switch settings are ignored for '${zoneType}' zones.`);
+      }
+
+      if (configPanelZone.motionSettings && zoneType !== 'motion') {
+        addIssue('warning', `Motion settings are ignored for '${zoneType}' zones.`);
+      }
+      if (configPanelZone.valveSettings && zoneType !== 'valve') {
+        addIssue('warning', `Valve settings are ignored for '${zoneType}' zones.`);
+      }
+      if (configPanelZone.garageDoorSettings && zoneType !== 'garagedoor') {
+        addIssue('warning', `Garage door settings are ignored for '${zoneType}' zones.`);
+      }
+      if (configPanelZone.tamperSettings && zoneType !== 'tamper') {
+        addIssue('warning', `Tamper settings are ignored for '${zoneType}' zones.`);
+      }
+
+      // the position sensor of garage doors
+      if (zoneType === 'garagedoor') {
+        const contactZone = ((configPanelZone.garageDoorSettings || {}) as Record<string, unknown>).contactZone;
+        const contactPanelZone = ((configPanel.zones || []) as Record<string, unknown>[]).find(
+          (panelZone) => typeof contactZone !== 'undefined' && String(panelZone.zoneNumber) === String(contactZone)
+        );
+        if (typeof contactZone === 'undefined') {
+          addIssue('warning', 'Garage door has no contact zone, the door is assumed to reach its position after the travel time.');
+        } else if (
+          !contactPanelZone ||
+          contactPanelZone.enabled !== true ||
+          TYPES_TO_ACCESSORIES[String(contactPanelZone.zoneType)]?.[0] !== 'ContactSensor'
+        ) {
+          addIssue(level, `Garage door contact zone '${contactZone}' is not an enabled contact zone on this panel.`);
+        }
+      }
+
+      // the zones of tamper loops
+      if (zoneType === 'tamper') {
+        const linkedZones = (((configPanelZone.tamperSettings || {}) as Record<string, unknown>).linkedZones || []) as unknown[];
+        linkedZones.forEach((linkedZone) => {
+          if (
+            !((configPanel.zones || []) as Record<string, unknown>[]).some(
+              (panelZone) => String(panelZone.zoneNumber) === String(linkedZone) && panelZone.enabled === true
+            )
+          ) {
+            addIssue('warning', `Tamper linked zone '${linkedZone}' is not an enabled zone on this panel.`);
+          }
+        });
+      }
+
+      // DS18B20 probes
+      const environmentalSensorSettings = (configPanelZone.environmentalSensorSettings || {}) as Record<string, unknown>;
+      const probes = (environmentalSensorSettings.probes || []) as Record<string, unknown>[];
+      if (probes.length > 0 && zoneType !== 'temperature') {
+        addIssue('warning', `Probes are ignored for '${zoneType}' zones.`);
+      }
+      const probeAddresses: string[] = [];
+      probes.forEach((probe, probeIndex) => {
+        if (typeof probe.address === 'undefined' || probe.address === '') {
+          addIssue('warning', `Probe ${probeIndex + 1} has no address, it is ignored.`);
+        } else if (probeAddresses.includes(String(probe.address))) {
+          addIssue('warning', `Probe address '${probe.address}' is assigned in two or more probes, only the first one will be used.`);
+        } else {
+          probeAddresses.push(String(probe.address));
+        }
+      });
+
+      // temperature thresholds that overlap
+      if (
+        typeof environmentalSensorSettings.highThreshold === 'number' &&
+        typeof environmentalSensorSettings.lowThreshold === 'number' &&
+        environmentalSensorSettings.lowThreshold >= environmentalSensorSettings.highThreshold
+      ) {
+        addIssue('warning', 'The low temperature threshold is not below the high temperature threshold, both alerts can be raised at once.');
+      }
+
+      // alarm settings of 24-hour zones, which trigger the alarm right away in every state
+      const binarySensorSettings = (configPanelZone.binarySensorSettings || {}) as Record<string, unknown>;
+      if (
+        zoneType in TYPES_TO_ALARM_CLASSES &&
+        binarySensorSettings.twentyFourHour !== false &&
+        (((binarySensorSettings.triggerableModes || []) as unknown[]).length > 0 || typeof binarySensorSettings.delayType !== 'undefined')
+      ) {
+        addIssue('warning', `Triggerable modes and entry delay type are ignored for '${zoneType}' zones, they are 24-hour zones.`);
+      }
+
+      // pulse settings that need each other
+      const switchSettings = (configPanelZone.switchSettings || {}) as Record<string, unknown>;
+      if (
+        (typeof switchSettings.pulseRepeat !== 'undefined') !==
+        (typeof switchSettings.pulsePause !== 'undefined')
+      ) {
+        addIssue('warning', 'Switch settings need both a pause between pulses and times to repeat, or neither.');
+      }
+    });
+  });
+
+  return {
+    errors: issues.filter((issue) => issue.level === 'error'),
+    warnings: issues.filter((issue) => issue.level === 'warning'),
+  };
+};